@@ -0,0 +1,176 @@
+import * as Phase from './phase';
+import * as PhaseNode from './phasenode';
+import * as Process from './process';
+import * as Retry from './retry';
+import { validateProcess } from './execution';
+
+// Settings of a node added by the builder. Without an id the node is named after its phase.
+export interface NodeOptions extends Omit<Process.NodeOptions, 'isEndPhase' | 'join'> {
+    id?: string;
+}
+
+// Settings of a node and of the connections that lead to it from the previous nodes
+export interface StepOptions<O, I> extends NodeOptions {
+    transform?: (output: O) => I;
+    condition?: (output: O, context: Process.Context) => boolean;
+    isDefault?: boolean;
+}
+
+export interface JoinOptions<O, I> extends NodeOptions {
+    mode?: PhaseNode.JoinMode; // Defaults to 'all'
+    count?: number; // Required when mode is 'count'
+    // Combines the outputs of the joined nodes, keyed by node id, into the input of the phase
+    merge?: (inputs: Record<string, O>) => I;
+}
+
+export interface ForEachOptions<O, T> extends Omit<StepOptions<O, O>, 'transform'>, Omit<PhaseNode.ForEach<O, T>, 'items'> {
+    items: (output: O) => T[]; // Selects the items the phase runs for from the output of the previous nodes
+}
+
+export interface Options {
+    context?: Process.Context; // Defaults to an empty context
+    retry?: Retry.Policy;
+    maxIterations?: number;
+}
+
+// A position in the graph under construction. O is the output type of the nodes the
+// next step connects to.
+export interface Chain<O> {
+    // Adds a node after the current nodes
+    then: {
+        <N>(phase: Phase.Instance<O, N>, options?: StepOptions<O, O>): Chain<N>;
+        <I, N>(phase: Phase.Instance<I, N>, options: StepOptions<O, I> & { transform: (output: O) => I }): Chain<N>;
+    };
+    // Continues with every branch from the current nodes. The last nodes of all branches become the current nodes.
+    branch: <B extends ((chain: Chain<O>) => Chain<any>)[]>(...branches: B) => Chain<ChainOutput<ReturnType<B[number]>>>;
+    // Adds a node that waits for the current nodes. Without a merge the phase receives their outputs keyed by node id.
+    join: {
+        <N>(phase: Phase.Instance<Record<string, O>, N>, options?: Omit<JoinOptions<O, never>, 'merge'>): Chain<N>;
+        <I, N>(phase: Phase.Instance<I, N>, options: JoinOptions<O, I> & { merge: (inputs: Record<string, O>) => I }): Chain<N>;
+    };
+    // Adds a node that runs the phase once per item and passes on the outputs in the order of the items
+    forEach: <T, N>(phase: Phase.Instance<T, N>, options: ForEachOptions<O, T>) => Chain<PhaseNode.ForEachOutput<N>>;
+    // Marks the current nodes as end phases
+    end: () => Chain<O>;
+    // Returns the process, throwing when it does not pass validateProcess
+    build: () => Process.Instance;
+}
+
+export type ChainOutput<C> = C extends Chain<infer O> ? O : never;
+
+export interface Instance {
+    start: <I, O>(phase: Phase.Instance<I, O>, options?: NodeOptions) => Chain<O>;
+}
+
+export const create = (name: string, options: Options = {}): Instance => {
+    const phases: Record<string, PhaseNode.Instance> = {};
+    let startPhaseId = '';
+    // Nodes each chain connects its next step to
+    const tailsOf = new Map<Chain<any>, string[]>();
+
+    const addNode = (phase: Phase.Instance<any, any>, options: NodeOptions): PhaseNode.Instance => {
+        const { id: requestedId, ...nodeOptions } = options;
+        let id = requestedId ?? phase.name;
+        if (requestedId !== undefined && phases[id]) {
+            throw new Error(`Duplicate node id "${id}" in process "${name}".`);
+        }
+        for (let suffix = 2; phases[id]; suffix++) {
+            id = `${phase.name}-${suffix}`;
+        }
+        const node: PhaseNode.Instance = { ...nodeOptions, id, phase, next: [] };
+        phases[id] = node;
+        return node;
+    }
+
+    const connect = (tails: string[], targetPhaseNodeId: string, connection: Omit<PhaseNode.Connection, 'targetPhaseNodeId'>) => {
+        for (const tail of tails) {
+            phases[tail].next.push({ targetPhaseNodeId, ...connection });
+        }
+    }
+
+    const build = (): Process.Instance => {
+        const process: Process.Instance = {
+            name,
+            context: options.context ?? {},
+            // Copied so that later builder calls do not change the returned process
+            phases: Object.fromEntries(Object.entries(phases).map(([id, node]) => [id, { ...node, next: [...node.next] }])),
+            startPhaseId,
+            ...(options.retry !== undefined ? { retry: options.retry } : {}),
+            ...(options.maxIterations !== undefined ? { maxIterations: options.maxIterations } : {}),
+        };
+        const errors = validateProcess(process);
+        if (errors.length > 0) {
+            throw new Error(`Invalid process "${name}": ${errors.join(' ')}`);
+        }
+        return process;
+    }
+
+    const chain = (tails: string[]): Chain<any> => {
+        const created: Chain<any> = {
+            then: (phase: Phase.Instance<any, any>, stepOptions: StepOptions<any, any> = {}) => {
+                const { transform, condition, isDefault, ...nodeOptions } = stepOptions;
+                const node = addNode(phase, nodeOptions);
+                connect(tails, node.id, {
+                    ...(transform !== undefined ? { transform } : {}),
+                    ...(condition !== undefined ? { condition } : {}),
+                    ...(isDefault !== undefined ? { isDefault } : {}),
+                });
+                return chain([node.id]);
+            },
+            branch: (...branches: ((chain: Chain<any>) => Chain<any>)[]) => {
+                const branchTails = branches.map(branch => {
+                    const last = tailsOf.get(branch(chain(tails)));
+                    if (!last) {
+                        throw new Error(`A branch of process "${name}" did not return a chain of its builder.`);
+                    }
+                    return last;
+                });
+                return chain([...new Set(branchTails.flat())]);
+            },
+            join: (phase: Phase.Instance<any, any>, joinOptions: JoinOptions<any, any> = {}) => {
+                const { mode = 'all', count, merge, ...nodeOptions } = joinOptions;
+                const node = addNode(phase, nodeOptions);
+                node.join = {
+                    mode,
+                    ...(count !== undefined ? { count } : {}),
+                    ...(merge !== undefined ? { merge } : {}),
+                };
+                connect(tails, node.id, {});
+                return chain([node.id]);
+            },
+            forEach: (phase: Phase.Instance<any, any>, forEachOptions: ForEachOptions<any, any>) => {
+                const { items, concurrency, onItemError, condition, isDefault, ...nodeOptions } = forEachOptions;
+                const node = addNode(phase, nodeOptions);
+                node.forEach = {
+                    items,
+                    ...(concurrency !== undefined ? { concurrency } : {}),
+                    ...(onItemError !== undefined ? { onItemError } : {}),
+                };
+                connect(tails, node.id, {
+                    ...(condition !== undefined ? { condition } : {}),
+                    ...(isDefault !== undefined ? { isDefault } : {}),
+                });
+                return chain([node.id]);
+            },
+            end: () => {
+                for (const tail of tails) {
+                    phases[tail].isEndPhase = true;
+                }
+                return chain(tails);
+            },
+            build,
+        };
+        tailsOf.set(created, tails);
+        return created;
+    }
+
+    return {
+        start: (phase, nodeOptions = {}) => {
+            if (startPhaseId) {
+                throw new Error(`Process "${name}" already has a start phase.`);
+            }
+            startPhaseId = addNode(phase, nodeOptions).id;
+            return chain([startPhaseId]);
+        },
+    };
+}
@@ -0,0 +1,146 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import * as Phase from './phase';
+
+// A phase output kept for later executions
+export interface Entry {
+    output: Phase.Output;
+    storedAt: string; // ISO timestamp
+    expiresAt?: string; // ISO timestamp, unset when the entry does not expire
+}
+
+// Keeps phase outputs across process executions. Outputs have to survive a JSON round
+// trip for the filesystem store.
+export interface Store {
+    get: (key: string) => Promise<Entry | undefined>;
+    set: (key: string, entry: Entry) => Promise<void>;
+    delete: (key: string) => Promise<void>;
+    clear: () => Promise<void>;
+}
+
+// How a node caches the output of its phase
+export interface Options {
+    store: Store;
+    key?: (input: Phase.Input) => string; // Optional: derives the key from the input, hashInput by default
+    ttlMs?: number; // Optional: how long an entry is used, forever by default
+    namespace?: string; // Optional: nodes with the same namespace share entries, each node has its own by default
+}
+
+export const isStore = (obj: any): obj is Store => {
+    return obj !== undefined && obj !== null && typeof obj === 'object'
+        && ['get', 'set', 'delete', 'clear'].every(method => typeof obj[method] === 'function');
+}
+
+const sha256 = (text: string): string => createHash('sha256').update(text).digest('hex');
+
+// The entry files of the file store and the temporary files a crash may have left behind
+const FILE_CACHE_ENTRY = /^[0-9a-f]{64}\.json(\.[0-9a-f-]{36}\.tmp)?$/;
+
+// Hash of the input as JSON with sorted object keys, so that key order does not matter.
+// Throws for maps, sets and class instances, which JSON would turn into the same {} however
+// different they are.
+export const hashInput = (input: unknown): string => {
+    const json = JSON.stringify(input, (_key, value) => {
+        if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+            return value;
+        }
+        const prototype = Object.getPrototypeOf(value);
+        if (prototype !== Object.prototype && prototype !== null) {
+            throw new Error(`Cannot hash a ${value.constructor?.name ?? 'value'} as JSON, only plain objects, arrays and primitives.`);
+        }
+        return Object.fromEntries(Object.keys(value).sort().map(key => [key, value[key]]));
+    });
+    return sha256(json ?? '');
+}
+
+// The namespace of the entries of a node: the namespace of its cache, or the process
+// name and node id, e.g. 'Orders/price'
+export const namespaceOf = (processName: string, nodeId: string, options: Options): string => {
+    return options.namespace ?? `${processName}/${nodeId}`;
+}
+
+// Entries are keyed by the namespace and the phase name, so that a node only shares them
+// with the nodes of the same phase that set the same namespace
+export const keyOf = (namespace: string, phase: Phase.Instance, input: Phase.Input, options: Options): string => {
+    return `${namespace}:${phase.name}:${(options.key ?? hashInput)(input)}`;
+}
+
+export const isExpired = (entry: Entry, now: Date = new Date()): boolean => {
+    return entry.expiresAt !== undefined && Date.parse(entry.expiresAt) <= now.getTime();
+}
+
+// Removes the entry of the phase in the namespace for the input, so that the next execution runs the phase
+export const invalidate = (namespace: string, phase: Phase.Instance, input: Phase.Input, options: Options): Promise<void> => {
+    return options.store.delete(keyOf(namespace, phase, input, options));
+}
+
+// Keeps up to maxEntries in memory and drops the least recently used entry when full
+export const createMemoryCache = (maxEntries: number = 1000): Store => {
+    // Map iteration follows insertion order, so the first key is the least recently used
+    const entries = new Map<string, Entry>();
+    return {
+        get: async (key) => {
+            const entry = entries.get(key);
+            if (entry) {
+                entries.delete(key);
+                entries.set(key, entry);
+            }
+            return entry ? structuredClone(entry) : undefined;
+        },
+        set: async (key, entry) => {
+            entries.delete(key);
+            entries.set(key, structuredClone(entry));
+            if (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value!);
+            }
+        },
+        delete: async (key) => {
+            entries.delete(key);
+        },
+        clear: async () => {
+            entries.clear();
+        },
+    };
+}
+
+// Writes one JSON file per entry to the directory, which is created when needed.
+// File names are hashes of the keys, which can be longer than a file name may be.
+export const createFileCache = (directory: string): Store => {
+    const pathOf = (key: string) => join(directory, `${sha256(key)}.json`);
+    return {
+        get: async (key) => {
+            try {
+                return JSON.parse(await readFile(pathOf(key), 'utf8'));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return undefined;
+                }
+                throw error;
+            }
+        },
+        // Written to a temporary file first so that a crash never leaves a partial file behind,
+        // with a name of its own so that concurrent writes of a key do not mix
+        set: async (key, entry) => {
+            await mkdir(directory, { recursive: true });
+            const path = pathOf(key);
+            const temporary = `${path}.${randomUUID()}.tmp`;
+            await writeFile(temporary, JSON.stringify(entry));
+            await rename(temporary, path);
+        },
+        delete: (key) => rm(pathOf(key), { force: true }),
+        // Only removes the files of the store, the directory can hold other files too
+        clear: async () => {
+            let files: string[];
+            try {
+                files = await readdir(directory);
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return;
+                }
+                throw error;
+            }
+            await Promise.all(files.filter(file => FILE_CACHE_ENTRY.test(file)).map(file => rm(join(directory, file), { force: true })));
+        },
+    };
+}
@@ -0,0 +1,179 @@
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import * as Phase from './phase';
+import * as Process from './process';
+import * as Loader from './loader';
+import * as StateStore from './statestore';
+import * as Diagram from './diagram';
+import { executeProcess } from './execution';
+import { isPhase } from './phase';
+
+// Where the commands read input and write output, replaced in tests
+export interface Io {
+    readStdin: () => Promise<string>;
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+}
+
+export const USAGE = `Usage: zealux <command> <definition> --phases <module> [options]
+
+Commands:
+  run        Execute the process and print its results as JSON
+  validate   Check the process definition and print its warnings
+  graph      Print the nodes and connections of the process
+
+Options:
+  -p, --phases <module>     Module whose exports are the phases of the definition
+  -i, --input <file>        JSON file with the initial input (run only, defaults to stdin)
+  -c, --concurrency <n>     Maximum number of nodes running at the same time (run only)
+  --run-id <id>             Identifies the run (run only)
+  --state-dir <directory>   Save the progress of the run in the directory (run only)
+  --resume                  Continue the run given by --run-id from --state-dir (run only)
+  --strict                  Treat warnings about the definition as errors
+  --format <format>         Graph output: text (default), mermaid or dot (graph only)
+  -h, --help                Show this help
+`;
+
+const OPTIONS = {
+    phases: { type: 'string', short: 'p' },
+    input: { type: 'string', short: 'i' },
+    concurrency: { type: 'string', short: 'c' },
+    'run-id': { type: 'string' },
+    'state-dir': { type: 'string' },
+    resume: { type: 'boolean' },
+    strict: { type: 'boolean' },
+    format: { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+} as const;
+
+const COMMANDS = ['run', 'validate', 'graph'];
+
+const GRAPH_FORMATS: Record<string, (process: Process.Instance) => string> = {
+    text: (processInstance) => describeGraph(processInstance),
+    mermaid: (processInstance) => Diagram.toMermaid(processInstance),
+    dot: (processInstance) => Diagram.toDot(processInstance),
+};
+
+export const createProcessIo = (): Io => ({
+    readStdin: async () => {
+        if (process.stdin.isTTY) {
+            return '';
+        }
+        let text = '';
+        for await (const chunk of process.stdin) {
+            text += chunk;
+        }
+        return text;
+    },
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+});
+
+// Every export of the module is a phase: factories are registered as they are,
+// phase instances are wrapped in a factory that returns them.
+export async function loadRegistry(modulePath: string): Promise<Loader.Registry> {
+    const exports: Record<string, unknown> = await import(pathToFileURL(resolve(modulePath)).href);
+    const registry = Loader.createRegistry();
+    for (const [name, value] of Object.entries(exports)) {
+        if (isPhase(value)) {
+            registry.register(name, () => value);
+        } else if (typeof value === 'function') {
+            registry.register(name, value as Loader.Factory);
+        }
+    }
+    return registry;
+}
+
+// One line per node followed by its connections, e.g. "load [LoadOrder] (start)" and "  -> approve"
+export function describeGraph(processInstance: Process.Instance): string {
+    const lines = [`Process "${processInstance.name}"`];
+    for (const node of Object.values(processInstance.phases)) {
+        const flags = [
+            ...(node.id === processInstance.startPhaseId ? ['start'] : []),
+            ...(node.isEndPhase ? ['end'] : []),
+            ...(node.join ? [`join: ${node.join.mode}${node.join.count !== undefined ? ` ${node.join.count}` : ''}`] : []),
+            ...(node.maxIterations !== undefined ? [`max iterations: ${node.maxIterations}`] : []),
+            ...(node.forEach ? [`for each${node.forEach.concurrency !== undefined ? `: concurrency ${node.forEach.concurrency}` : ''}`] : []),
+        ];
+        lines.push(`${node.id} [${node.phase.name}]${flags.length > 0 ? ` (${flags.join(', ')})` : ''}`);
+        for (const connection of node.next) {
+            const labels = [
+                ...(connection.condition ? ['condition'] : []),
+                ...(connection.transform ? ['transform'] : []),
+                ...(connection.isDefault ? ['default'] : []),
+            ];
+            lines.push(`  -> ${connection.targetPhaseNodeId}${labels.length > 0 ? ` (${labels.join(', ')})` : ''}`);
+        }
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+// Runs a command and returns the exit code: 0 on success, 1 when the command failed
+// and 2 when it was not called correctly.
+export async function main(args: string[], io: Io = createProcessIo()): Promise<number> {
+    let parsed;
+    try {
+        parsed = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+    } catch (error) {
+        io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+    const { values, positionals } = parsed;
+    if (values.help) {
+        io.stdout(USAGE);
+        return 0;
+    }
+    const [command, definitionPath] = positionals;
+    const format = values.format ?? 'text';
+    if (!COMMANDS.includes(command) || !definitionPath || !values.phases || !GRAPH_FORMATS[format]) {
+        io.stderr(USAGE);
+        return 2;
+    }
+    const concurrency = values.concurrency !== undefined ? Number(values.concurrency) : undefined;
+    if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency > 0)) {
+        io.stderr(`--concurrency should be a positive integer.\n\n${USAGE}`);
+        return 2;
+    }
+
+    try {
+        const registry = await loadRegistry(values.phases);
+        const { process: processInstance, errors, warnings } = Loader.read(await readFile(definitionPath, 'utf8'), registry);
+        // With --strict, warnings fail the command like errors do
+        const problems = values.strict ? [...errors, ...warnings] : errors;
+        if (!processInstance || problems.length > 0) {
+            io.stderr(`${problems.join('\n')}\n`);
+            return 1;
+        }
+
+        if (command === 'validate') {
+            if (warnings.length > 0) {
+                io.stderr(`${warnings.map(warning => `Warning: ${warning}`).join('\n')}\n`);
+            }
+            io.stdout(`Process "${processInstance.name}" is valid.\n`);
+            return 0;
+        }
+        if (command === 'graph') {
+            io.stdout(GRAPH_FORMATS[format](processInstance));
+            return 0;
+        }
+
+        const text = values.input !== undefined ? await readFile(values.input, 'utf8') : await io.readStdin();
+        const input: Phase.Input = text.trim() ? JSON.parse(text) : {};
+        const report = await executeProcess(processInstance, input, {
+            concurrency,
+            runId: values['run-id'],
+            stateStore: values['state-dir'] !== undefined ? StateStore.createFileStateStore(values['state-dir']) : undefined,
+            resume: values.resume,
+        });
+        io.stdout(`${JSON.stringify(report.results, null, 2)}\n`);
+        for (const { nodeId, error } of report.errors) {
+            io.stderr(`Phase "${nodeId}" failed: ${error instanceof Error ? error.message : error}\n`);
+        }
+        return report.success ? 0 : 1;
+    } catch (error) {
+        io.stderr(`${error instanceof Error ? error.message : error}\n`);
+        return 1;
+    }
+}
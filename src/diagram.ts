@@ -0,0 +1,105 @@
+import * as Process from './process';
+import * as PhaseNode from './phasenode';
+import * as Execution from './execution';
+
+export interface Options {
+    report?: Execution.ExecutionReport; // Optional: colors the nodes by their status in the run and adds their durations
+}
+
+// Fill and border colors of the node statuses
+const STATUS_COLORS: Record<Execution.NodeStatus, { fill: string; stroke: string }> = {
+    pending: { fill: '#ffffff', stroke: '#999999' },
+    succeeded: { fill: '#d4edda', stroke: '#28a745' },
+    failed: { fill: '#f8d7da', stroke: '#dc3545' },
+    skipped: { fill: '#e2e3e5', stroke: '#6c757d' },
+    cancelled: { fill: '#fff3cd', stroke: '#ffc107' },
+};
+
+const connectionLabels = (connection: PhaseNode.Connection): string[] => [
+    ...(connection.condition ? ['condition'] : []),
+    ...(connection.transform ? ['transform'] : []),
+    ...(connection.isDefault ? ['default'] : []),
+];
+
+// Time the executions of a node took together. Timings also cover the nodes without
+// attempts, such as cached, restored and piped nodes.
+function durationOf(report: Execution.ExecutionReport, nodeId: string): number | undefined {
+    const timings = report.timings[nodeId];
+    return timings?.length ? timings.reduce((total, timing) => total + timing.durationMs, 0) : undefined;
+}
+
+// The lines of a node label: its id and phase, then its status and duration in the run
+function labelLines(node: PhaseNode.Instance, options: Options): string[] {
+    const lines = [`${node.id} [${node.phase.name}]`];
+    if (options.report) {
+        const duration = durationOf(options.report, node.id);
+        lines.push(`${options.report.nodeStatuses[node.id]}${duration !== undefined ? `, ${duration} ms` : ''}`);
+    }
+    return lines;
+}
+
+// Mermaid flowchart text. The start node is drawn as a stadium and end nodes as subroutines.
+export function toMermaid(process: Process.Instance, options: Options = {}): string {
+    // Node ids can contain characters Mermaid does not accept, so nodes get generated ids
+    const idOf = new Map(Object.keys(process.phases).map((id, index) => [id, `n${index}`]));
+    const escape = (text: string) => text.replace(/"/g, '#quot;');
+    const lines = ['flowchart TD'];
+    for (const node of Object.values(process.phases)) {
+        const label = `"${labelLines(node, options).map(escape).join('<br/>')}"`;
+        const shape = node.id === process.startPhaseId ? `([${label}])` : node.isEndPhase ? `[[${label}]]` : `[${label}]`;
+        lines.push(`    ${idOf.get(node.id)}${shape}`);
+    }
+    for (const node of Object.values(process.phases)) {
+        for (const connection of node.next) {
+            const labels = connectionLabels(connection);
+            const arrow = labels.length > 0 ? `-->|"${labels.join(', ')}"|` : '-->';
+            lines.push(`    ${idOf.get(node.id)} ${arrow} ${idOf.get(connection.targetPhaseNodeId)}`);
+        }
+    }
+    if (options.report) {
+        const statuses = options.report.nodeStatuses;
+        for (const status of Object.keys(STATUS_COLORS) as Execution.NodeStatus[]) {
+            const ids = Object.keys(process.phases).filter(id => statuses[id] === status).map(id => idOf.get(id)!);
+            if (ids.length > 0) {
+                lines.push(`    classDef ${status} fill:${STATUS_COLORS[status].fill},stroke:${STATUS_COLORS[status].stroke}`);
+                lines.push(`    class ${ids.join(',')} ${status}`);
+            }
+        }
+    }
+    return `${lines.join('\n')}\n`;
+}
+
+// Graphviz DOT text. The start node is drawn bold and end nodes with a double border.
+export function toDot(process: Process.Instance, options: Options = {}): string {
+    const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    const quote = (text: string) => `"${escape(text)}"`;
+    const lines = [`digraph ${quote(process.name)} {`, '    node [shape=box, style=rounded];'];
+    for (const node of Object.values(process.phases)) {
+        const attributes = [`label="${labelLines(node, options).map(escape).join('\\n')}"`];
+        const styles = ['rounded'];
+        if (node.id === process.startPhaseId) {
+            styles.push('bold');
+        }
+        if (node.isEndPhase) {
+            attributes.push('peripheries=2');
+        }
+        if (options.report) {
+            const colors = STATUS_COLORS[options.report.nodeStatuses[node.id]];
+            styles.push('filled');
+            attributes.push(`fillcolor=${quote(colors.fill)}`, `color=${quote(colors.stroke)}`);
+        }
+        if (styles.length > 1) {
+            attributes.push(`style=${quote(styles.join(','))}`);
+        }
+        lines.push(`    ${quote(node.id)} [${attributes.join(', ')}];`);
+    }
+    for (const node of Object.values(process.phases)) {
+        for (const connection of node.next) {
+            const labels = connectionLabels(connection);
+            const attributes = labels.length > 0 ? ` [label=${quote(labels.join(', '))}]` : '';
+            lines.push(`    ${quote(node.id)} -> ${quote(connection.targetPhaseNodeId)}${attributes};`);
+        }
+    }
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+}
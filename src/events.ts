@@ -0,0 +1,118 @@
+import * as Phase from './phase';
+import * as Execution from './execution';
+import * as Logger from './logger';
+
+export interface ProcessStartEvent {
+    processName: string;
+    input: Phase.Input;
+    startedAt: Date;
+}
+
+export interface NodeStartEvent {
+    processName: string;
+    nodeId: string;
+    sourceNodeIds: string[]; // The nodes whose connections made the node ready, empty for the start phase
+    input: Phase.Input;
+    startedAt: Date;
+}
+
+export interface NodeSuccessEvent {
+    processName: string;
+    nodeId: string;
+    input: Phase.Input;
+    output: Phase.Output;
+    startedAt: Date;
+    endedAt: Date;
+    durationMs: number;
+    attempts: number; // 0 when the output came from the cache
+    cached?: boolean; // Set when the output came from the cache of the node
+}
+
+export interface NodeErrorEvent {
+    processName: string;
+    nodeId: string;
+    input: Phase.Input;
+    error: any;
+    startedAt: Date;
+    endedAt: Date;
+    durationMs: number;
+    attempts: number;
+}
+
+// Emitted when a connection's transform or condition throws
+export interface ConnectionErrorEvent {
+    processName: string;
+    sourceNodeId: string;
+    targetNodeId: string;
+    output: Phase.Output; // The output of the source node the connection was evaluated against
+    error: any;
+}
+
+// Emitted instead of node:start and node:success for a node whose output was restored from a resumed run
+export interface NodeRestoredEvent {
+    processName: string;
+    nodeId: string;
+    output: Phase.Output;
+}
+
+export interface NodeSkippedEvent {
+    processName: string;
+    nodeId: string;
+}
+
+export interface ProcessEndEvent {
+    processName: string;
+    report: Execution.ExecutionReport;
+}
+
+export interface EventMap {
+    'process:start': ProcessStartEvent;
+    'node:start': NodeStartEvent;
+    'node:success': NodeSuccessEvent;
+    'node:error': NodeErrorEvent;
+    'transform:error': ConnectionErrorEvent;
+    'condition:error': ConnectionErrorEvent;
+    'node:restored': NodeRestoredEvent;
+    'node:skipped': NodeSkippedEvent;
+    'process:end': ProcessEndEvent;
+}
+
+export type EventName = keyof EventMap;
+
+export type Listener<K extends EventName> = (event: EventMap[K]) => void;
+
+export interface Emitter {
+    // Returns a function that removes the listener again
+    on: <K extends EventName>(name: K, listener: Listener<K>) => () => void;
+    emit: <K extends EventName>(name: K, event: EventMap[K]) => void;
+}
+
+// Errors thrown by listeners are reported to the logger
+export const createEmitter = (logger: Logger.Instance = Logger.createSilentLogger()): Emitter => {
+    const listeners: { [K in EventName]?: Listener<K>[] } = {};
+    const listenersOf = <K extends EventName>(name: K): Listener<K>[] => listeners[name] ??= [];
+
+    const on = <K extends EventName>(name: K, listener: Listener<K>): () => void => {
+        const registered = listenersOf(name);
+        registered.push(listener);
+        return () => {
+            const index = registered.indexOf(listener);
+            if (index >= 0) {
+                registered.splice(index, 1);
+            }
+        };
+    }
+
+    // A failing listener must not break the execution it observes
+    const emit = <K extends EventName>(name: K, event: EventMap[K]): void => {
+        for (const listener of [...listenersOf(name)]) {
+            try {
+                listener(event);
+            } catch (error) {
+                logger.error(`Error in listener for event ${name}`, { processName: event.processName, error });
+            }
+        }
+    }
+
+    return { on, emit };
+}
@@ -1,74 +1,404 @@
+import { randomUUID } from 'crypto';
 import * as Process from './process';
 import * as Phase from './phase';
+import * as PhaseNode from './phasenode';
+import * as Retry from './retry';
+import * as Events from './events';
+import * as Logger from './logger';
+import * as StateStore from './statestore';
+import * as Schema from './schema';
+import * as Metrics from './metrics';
+import * as Tracing from './tracing';
+import * as Cache from './cache';
 
 export interface ExecutionResults {
     [nodeId: string]: Phase.Output;
 }
 
-interface ExecutionError {
+export interface ExecutionError {
     nodeId: string;
     error: any;
+    attempt?: number; // Set when the error is the last failed attempt of a phase
+}
+
+// How long one execution of a node waited and ran, and how much data it handled
+export interface NodeTiming {
+    queuedAt: Date; // When the node became ready
+    startedAt: Date;
+    endedAt: Date;
+    queueMs: number; // Time spent waiting for an execution slot
+    durationMs: number;
+    attempts: number;
+    inputBytes?: number; // Size of the input as JSON, unset without a metrics sink or when it cannot be serialized
+    outputBytes?: number; // Size of the output as JSON, unset without a metrics sink, an output or when it cannot be serialized
+}
+
+export interface ExecutionAttempt extends Retry.Attempt {
+    nodeId: string;
+    item?: number; // Set for the attempts of an item of a forEach node
+}
+
+// Nodes start out 'pending'. A node is 'skipped' when none of its incoming
+// connections fired, or when it has not run by the time the process finishes.
+// When the execution is aborted, every node that did not finish is 'cancelled'.
+export type NodeStatus = 'pending' | 'succeeded' | 'failed' | 'skipped' | 'cancelled';
+
+export interface ExecutionOptions {
+    runId?: string; // Optional: identifies the execution, a random UUID by default
+    signal?: AbortSignal; // Optional: aborting it stops the execution and cancels unfinished nodes
+    concurrency?: number; // Optional: maximum number of phases running at the same time, unbounded by default
+    events?: Events.Emitter; // Optional: receives lifecycle events of this execution
+    logger?: Logger.Instance; // Optional: defaults to a logger that discards every message
+    stateStore?: StateStore.Instance; // Optional: records node outputs and statuses under the run id as nodes finish
+    resume?: boolean; // Optional: continue the run saved under runId, reusing the outputs of nodes that succeeded
+    strict?: boolean; // Optional: warnings of diagnoseProcess stop the execution like errors do
+    metrics?: Metrics.Sink; // Optional: receives counters and histograms of the process and its nodes
+    tracer?: Tracing.Exporter; // Optional: receives a span for the process and for every node execution
+}
+
+export interface ExecutionReport {
+    processName: string;
+    runId: string;
+    success: boolean; // true when no node or transform recorded an error and the execution was not cancelled
+    cancelled: boolean; // true when the execution was aborted through ExecutionOptions.signal
+    startedAt: Date;
+    endedAt: Date;
+    nodeStatuses: Record<string, NodeStatus>;
+    errors: ExecutionError[];
+    attempts: ExecutionAttempt[]; // Every attempt of every phase, including the retried ones
+    history: Record<string, Phase.Output[]>; // Outputs of every execution of each node, oldest first
+    timings: Record<string, NodeTiming[]>; // Timings of every execution of each node, oldest first
+    traceId?: string; // Set when the execution was traced
+    cacheHits: string[]; // Nodes whose output came from their cache, once per execution
+    results: ExecutionResults; // Outputs of the end phases
+}
+
+// A node waiting in the ready queue for a free execution slot
+interface ReadyTask {
+    nodeId: string;
+    input: Phase.Input;
+    sourceNodeId?: string; // The predecessor that made the node ready, if any
+    arrivedInputs?: Record<string, Phase.Input>; // Join nodes: the inputs delivered when the node became ready
+    iteration: number;
+    queuedAt: Date;
+    priority: number;
 }
 
 // Helper type for internal state management
 interface ExecutionState {
     process: Process.Instance;
-    phaseResults: Map<string, Phase.Output>;
-    activeExecutions: Map<string, Promise<Phase.Output>>;
+    runId: string;
+    store: Phase.Store;
+    signal?: AbortSignal;
+    events?: Events.Emitter;
+    logger: Logger.Instance;
+    stateStore?: StateStore.Instance;
+    restoredOutputs: Map<string, Phase.Output>; // Outputs of nodes that succeeded in the resumed run
+    concurrency: number;
+    readyQueue: ReadyTask[]; // In the order the tasks became ready
+    entries: Map<string, number>; // How often each node was queued, whether or not it already ran
+    iterationCaps: Map<string, number>; // Loop nodes and how often they may be queued, other nodes are queued once
+    pipes: Map<string, string>; // Stream nodes and the stream node their items are piped to
+    closePipes: Map<string, () => void>; // Consumers of a pipe and what tells its producer that they stopped reading
+    running: number; // Nodes holding an execution slot
+    active: number; // Nodes that have not finished, including stream producers that gave up their slot
+    runningBySource: Map<string, number>; // Running successors per predecessor, for fan-out limits
+    drained: () => void; // Called once the ready queue is empty and nothing is running
+    phaseResults: Map<string, Phase.Output>; // Latest output of every node
+    history: Map<string, Phase.Output[]>;
+    timings: Map<string, NodeTiming[]>;
+    metrics?: Metrics.Sink;
+    tracer?: Tracing.Exporter;
+    processSpan?: Tracing.SpanContext; // Parent of the spans of nodes without a traced predecessor
+    spanIds: Map<string, string>; // Span of the latest execution of every traced node
+    joinInputs: Map<string, Record<string, Phase.Input>>;
+    skippedInbound: Map<string, Set<string>>; // target node id -> source node ids whose connection did not fire
+    nodeStatuses: Record<string, NodeStatus>;
     errors: ExecutionError[];
+    attempts: ExecutionAttempt[];
+    cacheHits: string[];
+}
+
+export type Severity = 'error' | 'warning';
+
+// A finding of diagnoseProcess, e.g. { code: 'unreachable-node', severity: 'warning', nodeId: 'audit', message: '...' }
+export interface Diagnostic {
+    code: string;
+    severity: Severity;
+    nodeId?: string; // Set when the finding is about one node
+    message: string;
+}
+
+const JOIN_MODES: PhaseNode.JoinMode[] = ['all', 'any', 'count'];
+const ROUTINGS: PhaseNode.Routing[] = ['all', 'first'];
+const ITEM_ERROR_MODES: PhaseNode.ItemErrorMode[] = ['collect', 'fail'];
+
+function getPredecessorIds(process: Process.Instance, nodeId: string): string[] {
+    const predecessors: string[] = [];
+    for (const id of Object.keys(process.phases)) {
+        const node = process.phases[id];
+        if (node && Array.isArray(node.next) && node.next.some(conn => conn && conn.targetPhaseNodeId === nodeId)) {
+            predecessors.push(id);
+        }
+    }
+    return predecessors;
+}
+
+// Strongly connected components that contain a cycle, skipping the excluded nodes.
+// Components and their nodes are listed in the order of the phases collection.
+function findCycles(process: Process.Instance, excluded: (id: string) => boolean = () => false): string[][] {
+    const phaseIds = Object.keys(process.phases).filter(id => !excluded(id));
+    const successors = (id: string): string[] => {
+        const node = process.phases[id];
+        if (!node || !Array.isArray(node.next)) {
+            return [];
+        }
+        return node.next
+            .map(connection => connection?.targetPhaseNodeId)
+            .filter(target => process.phases[target] && !excluded(target));
+    };
+
+    // Tarjan's algorithm
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+    const visit = (id: string) => {
+        index.set(id, index.size);
+        lowLink.set(id, index.get(id)!);
+        stack.push(id);
+        for (const target of successors(id)) {
+            if (!index.has(target)) {
+                visit(target);
+                lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(target)!));
+            } else if (stack.includes(target)) {
+                lowLink.set(id, Math.min(lowLink.get(id)!, index.get(target)!));
+            }
+        }
+        if (lowLink.get(id) === index.get(id)) {
+            const component = stack.splice(stack.indexOf(id));
+            if (component.length > 1 || successors(id).includes(id)) {
+                cycles.push(phaseIds.filter(phaseId => component.includes(phaseId)));
+            }
+        }
+    };
+    for (const id of phaseIds) {
+        if (!index.has(id)) {
+            visit(id);
+        }
+    }
+    return cycles.sort((a, b) => phaseIds.indexOf(a[0]) - phaseIds.indexOf(b[0]));
+}
+
+function canEnter(state: ExecutionState, nodeId: string): boolean {
+    return (state.entries.get(nodeId) ?? 0) < (state.iterationCaps.get(nodeId) ?? 1);
+}
+
+// Stream nodes whose items can be piped to the stream node they are connected to: the only
+// connection of the producer, without a transform or condition, to a node that reads nothing
+// else and is not a join, a forEach node or on a cycle. Other stream nodes, and those that
+// cache their output or read a cached one, are collected.
+function getPipes(process: Process.Instance): Map<string, string> {
+    const pipes = new Map<string, string>();
+    const onCycle = new Set(findCycles(process).flat());
+    for (const [id, node] of Object.entries(process.phases)) {
+        const [connection, ...others] = node.next;
+        if (!Phase.isStreamPhase(node.phase) || node.forEach || node.cache || !connection || others.length > 0 || connection.transform || connection.condition) {
+            continue;
+        }
+        const target = process.phases[connection.targetPhaseNodeId];
+        if (Phase.isStreamPhase(target.phase) && !target.join && !target.forEach && !target.cache && !onCycle.has(target.id)
+            && getPredecessorIds(process, target.id).length === 1) {
+            pipes.set(id, target.id);
+        }
+    }
+    return pipes;
+}
+
+// Connections between phases with JSON schemas on both ends, where the output passes to the
+// input unchanged, must not let valid outputs through that are invalid inputs
+function compareSchemas(process: Process.Instance, node: PhaseNode.Instance): string[] {
+    const output = node.phase?.outputSchema;
+    if (!Schema.isJsonValidator(output) || node.forEach || Phase.isStreamPhase(node.phase)) {
+        return [];
+    }
+    const messages: string[] = [];
+    for (const connection of node.next) {
+        const target = process.phases?.[connection?.targetPhaseNodeId];
+        const input = target?.phase?.inputSchema;
+        if (!connection || connection.transform || !Schema.isJsonValidator(input) || target.join || target.forEach) {
+            continue;
+        }
+        const issues = Schema.compare(output.schema, input.schema);
+        if (issues.length > 0) {
+            messages.push(`PhaseNode "${node.id}" has an output schema that does not fit the input schema of "${target.id}" (${Schema.formatIssues(issues)}).`);
+        }
+    }
+    return messages;
+}
+
+function isJoinReady(state: ExecutionState, node: PhaseNode.Instance): boolean {
+    const arrivals = Object.keys(state.joinInputs.get(node.id)!).length;
+    // Predecessors whose connection did not fire will never deliver an input
+    const skipped = state.skippedInbound.get(node.id) ?? new Set<string>();
+    const possible = getPredecessorIds(state.process, node.id).filter(id => !skipped.has(id)).length;
+    switch (node.join!.mode) {
+        case 'any':
+            return true;
+        case 'count':
+            return arrivals >= Math.min(node.join!.count!, possible);
+        default:
+            return arrivals >= possible;
+    }
 }
 
-export function validateProcess(process: Process.Instance): string[] {
-    const errors: string[] = [];
+// Every problem diagnoseProcess finds: errors make a process invalid, warnings point at
+// wiring that is probably a mistake but does not stop the process from running
+export function diagnoseProcess(process: Process.Instance): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const report = (severity: Severity, code: string, message: string, nodeId?: string) => {
+        diagnostics.push(nodeId !== undefined ? { code, severity, nodeId, message } : { code, severity, message });
+    };
+    const error = (code: string, message: string, nodeId?: string) => report('error', code, message, nodeId);
+    const warning = (code: string, message: string, nodeId?: string) => report('warning', code, message, nodeId);
+
     if (!process || typeof process !== 'object') {
-        errors.push("Process definition is missing or not an object.");
-        return errors; // Stop further validation if basic structure is wrong
+        error('invalid-process', "Process definition is missing or not an object.");
+        return diagnostics; // Stop further validation if basic structure is wrong
     }
 
     if (!process.phases || typeof process.phases !== 'object') {
-        errors.push("Process 'phases' collection is missing or not an object.");
+        error('invalid-phases', "Process 'phases' collection is missing or not an object.");
     }
 
     if (typeof process.startPhaseId !== 'string' || !process.startPhaseId) {
-        errors.push("Process 'startPhaseId' is missing or invalid.");
+        error('invalid-start', "Process 'startPhaseId' is missing or invalid.");
     } else if (process.phases && !process.phases[process.startPhaseId]) {
-        errors.push(`Start phase ID "${process.startPhaseId}" does not exist in the phases collection.`);
+        error('unknown-start', `Start phase ID "${process.startPhaseId}" does not exist in the phases collection.`);
     }
 
     const phaseIds = process.phases ? Object.keys(process.phases) : [];
     if (phaseIds.length === 0 && process.startPhaseId) {
-        errors.push("Process has a startPhaseId but no phases defined.");
+        error('no-phases', "Process has a startPhaseId but no phases defined.");
+    }
+
+    if (process.retry !== undefined) {
+        Retry.validatePolicy(process.retry, 'Process').forEach(message => error('invalid-retry', message));
+    }
+    if (process.maxIterations !== undefined && (!Number.isInteger(process.maxIterations) || process.maxIterations < 1)) {
+        error('invalid-max-iterations', 'Process has an invalid maxIterations (should be a positive integer).');
     }
 
     for (const id of phaseIds) {
         const node = process.phases[id];
         if (!node || typeof node !== 'object') {
-            errors.push(`PhaseNode definition for ID "${id}" is missing or invalid.`);
+            error('invalid-node', `PhaseNode definition for ID "${id}" is missing or invalid.`, id);
             continue;
         }
         if (node.id !== id) {
-            errors.push(`PhaseNode ID "${node.id}" does not match its key "${id}" in the phases collection.`);
+            error('id-mismatch', `PhaseNode ID "${node.id}" does not match its key "${id}" in the phases collection.`, id);
         }
         if (!node.phase || typeof node.phase.execute !== 'function') {
-            errors.push(`PhaseNode "${id}" is missing a valid phase instance with an execute method.`);
+            error('invalid-phase', `PhaseNode "${id}" is missing a valid phase instance with an execute method.`, id);
+        } else {
+            for (const key of ['inputSchema', 'outputSchema'] as const) {
+                if (node.phase[key] !== undefined && !Schema.isValidator(node.phase[key])) {
+                    error('invalid-schema', `PhaseNode "${id}" has a phase with an invalid ${key} (should have a validate function).`, id);
+                }
+            }
         }
         if (!Array.isArray(node.next)) {
-            errors.push(`PhaseNode "${id}" has an invalid 'next' property (should be an array).`);
+            error('invalid-next', `PhaseNode "${id}" has an invalid 'next' property (should be an array).`, id);
         } else {
             for (const connection of node.next) {
                 if (!connection || typeof connection.targetPhaseNodeId !== 'string' || !connection.targetPhaseNodeId) {
-                    errors.push(`PhaseNode "${id}" has an invalid connection (targetPhaseNodeId missing or invalid).`);
+                    error('invalid-connection', `PhaseNode "${id}" has an invalid connection (targetPhaseNodeId missing or invalid).`, id);
                 } else if (process.phases && !process.phases[connection.targetPhaseNodeId]) {
-                    errors.push(`PhaseNode "${id}" has a connection to non-existent targetPhaseNodeId "${connection.targetPhaseNodeId}".`);
+                    error('unknown-target', `PhaseNode "${id}" has a connection to non-existent targetPhaseNodeId "${connection.targetPhaseNodeId}".`, id);
                 }
                 if (connection.transform && typeof connection.transform !== 'function') {
-                    errors.push(`PhaseNode "${id}" has a connection to "${connection.targetPhaseNodeId}" with an invalid transform (should be a function).`);
+                    error('invalid-transform', `PhaseNode "${id}" has a connection to "${connection.targetPhaseNodeId}" with an invalid transform (should be a function).`, id);
+                }
+                if (connection.condition && typeof connection.condition !== 'function') {
+                    error('invalid-condition', `PhaseNode "${id}" has a connection to "${connection.targetPhaseNodeId}" with an invalid condition (should be a function).`, id);
+                }
+            }
+            compareSchemas(process, node).forEach(message => error('schema-mismatch', message, id));
+            if (node.next.filter(connection => connection && connection.isDefault).length > 1) {
+                error('multiple-defaults', `PhaseNode "${id}" has more than one default connection.`, id);
+            }
+            if (node.isEndPhase && node.next.length > 0) {
+                warning('end-phase-with-connections', `PhaseNode "${id}" is an end phase but has connections, so its output is both a result and passed on.`, id);
+            }
+        }
+        if (node.routing !== undefined && !ROUTINGS.includes(node.routing)) {
+            error('invalid-routing', `PhaseNode "${id}" has an invalid routing (should be one of ${ROUTINGS.join(', ')}).`, id);
+        }
+        if (node.retry !== undefined) {
+            Retry.validatePolicy(node.retry, `PhaseNode "${id}"`).forEach(message => error('invalid-retry', message, id));
+        }
+        if (node.priority !== undefined && !Number.isFinite(node.priority)) {
+            error('invalid-priority', `PhaseNode "${id}" has an invalid priority (should be a finite number).`, id);
+        }
+        if (node.fanOutConcurrency !== undefined && (!Number.isInteger(node.fanOutConcurrency) || node.fanOutConcurrency < 1)) {
+            error('invalid-fan-out-concurrency', `PhaseNode "${id}" has an invalid fanOutConcurrency (should be a positive integer).`, id);
+        }
+        if (node.maxIterations !== undefined && (!Number.isInteger(node.maxIterations) || node.maxIterations < 1)) {
+            error('invalid-max-iterations', `PhaseNode "${id}" has an invalid maxIterations (should be a positive integer).`, id);
+        }
+        if (node.forEach !== undefined) {
+            const forEach = node.forEach;
+            if (!forEach || typeof forEach !== 'object' || typeof forEach.items !== 'function') {
+                error('invalid-for-each', `PhaseNode "${id}" has an invalid forEach (items should be a function).`, id);
+            } else {
+                if (forEach.concurrency !== undefined && (!Number.isInteger(forEach.concurrency) || forEach.concurrency < 1)) {
+                    error('invalid-for-each', `PhaseNode "${id}" has an invalid forEach concurrency (should be a positive integer).`, id);
+                }
+                if (forEach.onItemError !== undefined && !ITEM_ERROR_MODES.includes(forEach.onItemError)) {
+                    error('invalid-for-each', `PhaseNode "${id}" has an invalid forEach onItemError (should be one of ${ITEM_ERROR_MODES.join(', ')}).`, id);
+                }
+            }
+        }
+        if (node.cache !== undefined) {
+            const cache = node.cache;
+            if (!cache || typeof cache !== 'object' || !Cache.isStore(cache.store)) {
+                error('invalid-cache', `PhaseNode "${id}" has an invalid cache (store should have get, set, delete and clear functions).`, id);
+            } else {
+                if (cache.key !== undefined && typeof cache.key !== 'function') {
+                    error('invalid-cache', `PhaseNode "${id}" has an invalid cache key (should be a function).`, id);
+                }
+                if (cache.ttlMs !== undefined && (typeof cache.ttlMs !== 'number' || !(cache.ttlMs > 0))) {
+                    error('invalid-cache', `PhaseNode "${id}" has an invalid cache ttlMs (should be a positive number).`, id);
+                }
+                if (cache.namespace !== undefined && typeof cache.namespace !== 'string') {
+                    error('invalid-cache', `PhaseNode "${id}" has an invalid cache namespace (should be a string).`, id);
+                }
+            }
+        }
+        if (node.join !== undefined) {
+            const join = node.join;
+            if (!join || typeof join !== 'object' || !JOIN_MODES.includes(join.mode)) {
+                error('invalid-join', `PhaseNode "${id}" has an invalid join (mode should be one of ${JOIN_MODES.join(', ')}).`, id);
+            } else {
+                const predecessorCount = getPredecessorIds(process, id).length;
+                if (join.mode === 'count' && (!Number.isInteger(join.count) || join.count! < 1 || join.count! > predecessorCount)) {
+                    error('invalid-join', `PhaseNode "${id}" has an invalid join count (should be an integer between 1 and ${predecessorCount}).`, id);
+                }
+                if (join.merge && typeof join.merge !== 'function') {
+                    error('invalid-join', `PhaseNode "${id}" has an invalid join merge (should be a function).`, id);
                 }
             }
         }
     }
 
-    // Basic reachability check from start node (optional, can be more complex)
+    // A cycle is an intended loop when an iteration cap bounds every way around it
+    if (process.phases && typeof process.phases === 'object' && process.maxIterations === undefined) {
+        for (const cycle of findCycles(process, id => process.phases[id]?.maxIterations !== undefined)) {
+            error('uncapped-cycle', `PhaseNode "${cycle[0]}" is on a cycle through ${cycle.map(id => `"${id}"`).join(', ')} without an iteration cap (set maxIterations on one of these nodes or on the process).`, cycle[0]);
+        }
+    }
+
+    // Nodes that no path from the start node leads to never run
     if (process.startPhaseId && process.phases && process.phases[process.startPhaseId]) {
         const visited = new Set<string>();
         const stack: string[] = [process.startPhaseId];
@@ -77,79 +407,772 @@ export function validateProcess(process: Process.Instance): string[] {
             if (visited.has(currentId)) continue;
             visited.add(currentId);
             const currentNode = process.phases[currentId];
-            if (currentNode && currentNode.next) {
+            if (currentNode && Array.isArray(currentNode.next)) {
                 currentNode.next.forEach(conn => {
-                    if (process.phases[conn.targetPhaseNodeId] && !visited.has(conn.targetPhaseNodeId)) {
+                    if (conn && process.phases[conn.targetPhaseNodeId] && !visited.has(conn.targetPhaseNodeId)) {
                         stack.push(conn.targetPhaseNodeId);
                     }
                 });
             }
         }
+        for (const id of phaseIds.filter(phaseId => !visited.has(phaseId))) {
+            warning('unreachable-node', `PhaseNode "${id}" cannot be reached from the start phase "${process.startPhaseId}".`, id);
+        }
+    }
+
+    // Without explicit end phases every leaf is one, otherwise a leaf that is not an end phase is a dead end
+    const nodes = phaseIds.map(id => process.phases[id]).filter(node => node && typeof node === 'object');
+    if (nodes.some(node => node.isEndPhase)) {
+        for (const node of nodes.filter(node => !node.isEndPhase && Array.isArray(node.next) && node.next.length === 0)) {
+            warning('dead-end', `PhaseNode "${node.id}" has no connections but is not an end phase, so its output is not a result.`, node.id);
+        }
     }
-    return errors;
+    return diagnostics;
 }
 
+// The messages of the errors diagnoseProcess finds, plus those of the warnings when they count as errors
+export function validateProcess(process: Process.Instance, options: { warningsAsErrors?: boolean } = {}): string[] {
+    return diagnoseProcess(process)
+        .filter(diagnostic => diagnostic.severity === 'error' || options.warningsAsErrors)
+        .map(diagnostic => diagnostic.message);
+}
 
-async function executeNodeRecursive(
-    nodeId: string,
+// Node ids ordered so that every node comes after the nodes connected to it. Processes with
+// loops have no such order, so this throws for them. Connections to missing nodes are ignored
+// like findCycles does, diagnoseProcess reports them.
+export function topologicalOrder(process: Process.Instance): string[] {
+    const [cycle] = findCycles(process);
+    if (cycle) {
+        throw new Error(`Process "${process.name}" has no topological order because of the cycle through ${cycle.map(id => `"${id}"`).join(', ')}.`);
+    }
+    const order: string[] = [];
+    const visited = new Set<string>();
+    // Depth first, adding a node once everything after it has been added
+    const visit = (id: string) => {
+        visited.add(id);
+        const node = process.phases[id];
+        for (const connection of Array.isArray(node?.next) ? node.next : []) {
+            const target = connection?.targetPhaseNodeId;
+            if (process.phases[target] && !visited.has(target)) {
+                visit(target);
+            }
+        }
+        order.unshift(id);
+    };
+    for (const id of Object.keys(process.phases).reverse()) {
+        if (!visited.has(id)) {
+            visit(id);
+        }
+    }
+    return order;
+}
+
+function selectConnections(
+    node: PhaseNode.Instance,
+    output: Phase.Output,
+    state: ExecutionState
+): { fired: PhaseNode.Connection[], notFired: PhaseNode.Connection[] } {
+    const fired: PhaseNode.Connection[] = [];
+    const notFired: PhaseNode.Connection[] = [];
+    for (const connection of node.next) {
+        if (connection.isDefault) {
+            continue;
+        }
+        if (node.routing === 'first' && fired.length > 0) {
+            notFired.push(connection);
+            continue;
+        }
+        // A loop node that reached its cap cannot be re-entered, so default connections can take over
+        if (state.iterationCaps.has(connection.targetPhaseNodeId) && !canEnter(state, connection.targetPhaseNodeId)) {
+            state.logger.warn(`Phase ${connection.targetPhaseNodeId} reached its iteration cap of ${state.iterationCaps.get(connection.targetPhaseNodeId)}.`, {
+                processName: state.process.name,
+                nodeId: connection.targetPhaseNodeId,
+            });
+            notFired.push(connection);
+            continue;
+        }
+        let passes = true;
+        if (connection.condition) {
+            try {
+                passes = connection.condition(output, state.process.context);
+            } catch (conditionError) {
+                state.logger.error(`Error in condition for connection ${node.id} -> ${connection.targetPhaseNodeId}`, {
+                    processName: state.process.name,
+                    nodeId: connection.targetPhaseNodeId,
+                    error: conditionError,
+                });
+                state.errors.push({ nodeId: connection.targetPhaseNodeId, error: conditionError });
+                state.events?.emit('condition:error', {
+                    processName: state.process.name,
+                    sourceNodeId: node.id,
+                    targetNodeId: connection.targetPhaseNodeId,
+                    output,
+                    error: conditionError,
+                });
+                state.nodeStatuses[connection.targetPhaseNodeId] = 'failed';
+                continue;
+            }
+        }
+        if (passes) {
+            fired.push(connection);
+        } else {
+            notFired.push(connection);
+        }
+    }
+
+    // Default connections fire only when nothing else did
+    const defaults = node.next.filter(connection => connection.isDefault);
+    if (fired.length === 0) {
+        fired.push(...defaults);
+    } else {
+        notFired.push(...defaults);
+    }
+    return { fired, notFired };
+}
+
+function skipConnection(
+    sourceNodeId: string,
+    targetNodeId: string,
+    state: ExecutionState
+): void {
+    const skipped = state.skippedInbound.get(targetNodeId) ?? new Set<string>();
+    skipped.add(sourceNodeId);
+    state.skippedInbound.set(targetNodeId, skipped);
+
+    if (state.nodeStatuses[targetNodeId] !== 'pending' || state.entries.has(targetNodeId)) {
+        return;
+    }
+
+    // A join that already received inputs may now have everything it can still get
+    const node = state.process.phases[targetNodeId];
+    if (node.join && state.joinInputs.has(targetNodeId)) {
+        if (isJoinReady(state, node)) {
+            enqueueNode(targetNodeId, {}, state, sourceNodeId, { ...state.joinInputs.get(targetNodeId) });
+        }
+        return;
+    }
+
+    if (!getPredecessorIds(state.process, targetNodeId).every(id => skipped.has(id))) {
+        return;
+    }
+    state.nodeStatuses[targetNodeId] = 'skipped';
+    state.events?.emit('node:skipped', { processName: state.process.name, nodeId: targetNodeId });
+    for (const connection of node.next) {
+        skipConnection(targetNodeId, connection.targetPhaseNodeId, state);
+    }
+}
+
+function deliverInput(
+    sourceNodeId: string,
+    targetNodeId: string,
     input: Phase.Input,
     state: ExecutionState
-): Promise<Phase.Output> {
-    // 1. Check if result is already cached
-    if (state.phaseResults.has(nodeId)) {
-        return state.phaseResults.get(nodeId)!;
+): void {
+    const node = state.process.phases[targetNodeId];
+    if (!node.join) {
+        enqueueNode(targetNodeId, input, state, sourceNodeId);
+        return;
+    }
+    if (!canEnter(state, targetNodeId)) {
+        return;
     }
+    const arrivedInputs = state.joinInputs.get(targetNodeId) ?? {};
+    arrivedInputs[sourceNodeId] = input;
+    state.joinInputs.set(targetNodeId, arrivedInputs);
+    if (isJoinReady(state, node)) {
+        enqueueNode(targetNodeId, input, state, sourceNodeId, { ...arrivedInputs });
+    }
+}
 
-    // 2. Check if this node is already being actively executed
-    if (state.activeExecutions.has(nodeId)) {
-        return state.activeExecutions.get(nodeId)!;
+function enqueueNode(
+    nodeId: string,
+    input: Phase.Input,
+    state: ExecutionState,
+    sourceNodeId?: string,
+    arrivedInputs?: Record<string, Phase.Input>
+): void {
+    // Nodes other than loop nodes run at most once; later arrivals see the first execution
+    if (!canEnter(state, nodeId)) {
+        return;
     }
+    const iteration = (state.entries.get(nodeId) ?? 0) + 1;
+    state.entries.set(nodeId, iteration);
+    // The next iteration of a loop join collects its inputs again
+    state.joinInputs.delete(nodeId);
+    state.readyQueue.push({
+        nodeId,
+        input,
+        sourceNodeId,
+        arrivedInputs,
+        iteration,
+        queuedAt: new Date(),
+        priority: state.process.phases[nodeId].priority ?? 0,
+    });
+}
 
-    const node = state.process.phases[nodeId];
-    if (!node) {
-        const error = new Error(`PhaseNode with ID "${nodeId}" not found.`);
+function hasFanOutCapacity(state: ExecutionState, sourceNodeId: string | undefined): boolean {
+    const limit = sourceNodeId !== undefined ? state.process.phases[sourceNodeId].fanOutConcurrency : undefined;
+    return limit === undefined || (state.runningBySource.get(sourceNodeId!) ?? 0) < limit;
+}
+
+// Index of the highest priority task that may start now, or -1 if none can. Of tasks with
+// the same priority the one that became ready first is picked.
+function pickNextTask(state: ExecutionState): number {
+    let picked = -1;
+    state.readyQueue.forEach((task, index) => {
+        if (hasFanOutCapacity(state, task.sourceNodeId) && (picked < 0 || task.priority > state.readyQueue[picked].priority)) {
+            picked = index;
+        }
+    });
+    return picked;
+}
+
+function failUnexpectedly(nodeId: string, error: any, state: ExecutionState): void {
+    if (!state.signal?.aborted) {
+        state.nodeStatuses[nodeId] = 'failed';
         state.errors.push({ nodeId, error });
-        throw error;
     }
+    state.logger.error(`Unexpected error running phase ${nodeId}`, { processName: state.process.name, nodeId, error });
+}
+
+function dispatch(state: ExecutionState): void {
+    // Nothing new is started once the execution has been cancelled
+    if (state.signal?.aborted) {
+        state.readyQueue.length = 0;
+    }
+
+    while (state.running < state.concurrency) {
+        const index = pickNextTask(state);
+        if (index < 0) {
+            break;
+        }
+        const [task] = state.readyQueue.splice(index, 1);
+        state.running++;
+        state.active++;
+        if (task.sourceNodeId !== undefined) {
+            state.runningBySource.set(task.sourceNodeId, (state.runningBySource.get(task.sourceNodeId) ?? 0) + 1);
+        }
+        let released = false;
+        const release = () => {
+            if (!released) {
+                released = true;
+                state.running--;
+                if (task.sourceNodeId !== undefined) {
+                    state.runningBySource.set(task.sourceNodeId, state.runningBySource.get(task.sourceNodeId)! - 1);
+                }
+            }
+        };
+        // Stream producers free their slot early, once their consumer is ready to start
+        runNode(task, state, () => {
+            release();
+            dispatch(state);
+        }).catch((error) => {
+            // runNode handles the errors of the phase, so this is a bug that must not stop the run
+            failUnexpectedly(task.nodeId, error, state);
+        }).finally(() => {
+            state.active--;
+            release();
+            dispatch(state);
+        });
+    }
+
+    if (state.active === 0 && state.readyQueue.length === 0) {
+        state.drained();
+    }
+}
+
+// The items collected from a stream producer for a stream consumer that is not piped, which
+// reads them as an AsyncIterable like a piped consumer would. Undefined for other nodes.
+function collectedItems(task: ReadyTask, node: PhaseNode.Instance, input: Phase.Input, state: ExecutionState): unknown[] | undefined {
+    const source = task.sourceNodeId !== undefined ? state.process.phases[task.sourceNodeId] : undefined;
+    if (!Phase.isStreamPhase(node.phase) || !source || !Phase.isStreamPhase(source.phase) || source.forEach
+        || !input || !Array.isArray(input.items)) {
+        return undefined;
+    }
+    return input.items;
+}
+
+async function* iterate<T>(items: T[]): AsyncIterable<T> {
+    yield* items;
+}
+
+// Runs the phase and checks its output against the schema of the phase
+async function executePhase(node: PhaseNode.Instance, input: Phase.Input, context: Phase.Context): Promise<Phase.Output> {
+    const output = await node.phase.execute(input, context);
+    Schema.assertValid(node.phase.outputSchema, output, `Invalid output of phase ${node.id}${context.item !== undefined ? ` (item ${context.item})` : ''}`);
+    return output;
+}
+
+// Runs the phase of a forEach node for every item, each with the retry policy of the node
+async function executeForEach(
+    node: PhaseNode.Instance,
+    input: Phase.Input,
+    context: Phase.Context,
+    policy: Retry.Policy,
+    onAttempt: (attempt: Retry.Attempt, item: number) => void,
+    state: ExecutionState
+): Promise<PhaseNode.ForEachOutput> {
+    const forEach = node.forEach!;
+    const items = forEach.items(input);
+    if (!Array.isArray(items)) {
+        throw new Error(`The forEach items of phase ${node.id} should be an array.`);
+    }
+    const outputs: (Phase.Output | undefined)[] = items.map(() => undefined);
+    const errors: PhaseNode.ItemError[] = [];
+    let failure: { error: any } | undefined;
+    let next = 0;
+
+    // Every worker takes the next item until none are left
+    const work = async () => {
+        while (next < items.length && !failure) {
+            const index = next++;
+            try {
+                Schema.assertValid(node.phase.inputSchema, items[index], `Invalid input for phase ${node.id} (item ${index})`);
+                outputs[index] = await Retry.execute(
+                    (_, signal) => executePhase(node, items[index], { ...context, item: index, signal: signal ?? context.signal }),
+                    policy,
+                    attempt => onAttempt(attempt, index),
+                    state.signal
+                );
+            } catch (error) {
+                if (state.signal?.aborted || forEach.onItemError === 'fail') {
+                    failure ??= { error };
+                } else {
+                    errors.push({ index, error });
+                }
+            }
+        }
+    };
+    // Items run in the execution slot of the node, so without a limit of their own they are
+    // bounded by the limit of the execution
+    await Promise.all(Array.from({ length: Math.min(forEach.concurrency ?? state.concurrency, items.length) }, work));
+
+    if (failure) {
+        throw failure.error;
+    }
+    return { outputs, errors: errors.sort((a, b) => a.index - b.index) };
+}
 
-    // 3. Mark as active and execute
-    const executionPromise = (async () => {
+// Hands the items of a stream node to its consumer as the consumer reads them. The producer
+// only yields while it is read from, so it gives up its execution slot to the consumer, and it
+// finishes once the consumer read every item or stopped reading.
+async function pipeStream(
+    node: PhaseNode.Instance,
+    input: Phase.Input,
+    context: Phase.Context,
+    release: () => void,
+    state: ExecutionState
+): Promise<Phase.Output> {
+    const consumerId = state.pipes.get(node.id)!;
+    const items = (node.phase as Phase.StreamInstance).stream(input, context);
+    let count = 0;
+    let resolve!: () => void;
+    let reject!: (error: any) => void;
+    const finished = new Promise<void>((resolvePromise, rejectPromise) => {
+        resolve = resolvePromise;
+        reject = rejectPromise;
+    });
+    async function* relay() {
         try {
-            const output = await node.phase.execute(input);
+            for await (const item of items) {
+                count++;
+                yield item;
+            }
+        } catch (error) {
+            reject(error);
+            throw new Error(`The stream of phase ${node.id} failed.`, { cause: error });
+        } finally {
+            resolve();
+        }
+    }
+
+    state.closePipes.set(consumerId, resolve);
+    deliverInput(node.id, consumerId, relay() as unknown as Phase.Input, state);
+    release();
+    const onAbort = () => reject(state.signal!.reason);
+    state.signal?.addEventListener('abort', onAbort);
+    try {
+        state.signal?.throwIfAborted();
+        await finished;
+    } finally {
+        state.signal?.removeEventListener('abort', onAbort);
+    }
+    return { count };
+}
+
+// The key of the input in the cache of the node, undefined when it cannot be computed, e.g.
+// for inputs that are not JSON. The phase then runs without the cache.
+function cacheKeyOf(node: PhaseNode.Instance, input: Phase.Input, state: ExecutionState): string | undefined {
+    try {
+        return Cache.keyOf(Cache.namespaceOf(state.process.name, node.id, node.cache!), node.phase, input, node.cache!);
+    } catch (error) {
+        state.logger.warn(`Error computing the cache key of phase ${node.id}`, { processName: state.process.name, nodeId: node.id, error });
+        return undefined;
+    }
+}
+
+// The output cached for the key, undefined on a miss. A cache that fails only costs the hit.
+async function readCache(node: PhaseNode.Instance, key: string, state: ExecutionState): Promise<Phase.Output | undefined> {
+    try {
+        const entry = await node.cache!.store.get(key);
+        return entry && !Cache.isExpired(entry) ? entry.output : undefined;
+    } catch (error) {
+        state.logger.warn(`Error reading the cache of phase ${node.id}`, { processName: state.process.name, nodeId: node.id, error });
+        return undefined;
+    }
+}
+
+async function writeCache(node: PhaseNode.Instance, key: string, output: Phase.Output, state: ExecutionState): Promise<void> {
+    const storedAt = new Date();
+    const { ttlMs } = node.cache!;
+    try {
+        await node.cache!.store.set(key, {
+            output,
+            storedAt: storedAt.toISOString(),
+            ...(ttlMs !== undefined ? { expiresAt: new Date(storedAt.getTime() + ttlMs).toISOString() } : {}),
+        });
+    } catch (error) {
+        state.logger.warn(`Error writing the cache of phase ${node.id}`, { processName: state.process.name, nodeId: node.id, error });
+    }
+}
+
+// Size of a value as JSON in bytes, undefined when it cannot be serialized
+function sizeOf(value: unknown): number | undefined {
+    try {
+        const json = JSON.stringify(value);
+        return json === undefined ? undefined : Buffer.byteLength(json);
+    } catch {
+        return undefined;
+    }
+}
+
+// Cancelled executions leave the span status unset
+const spanStatus = (status: NodeStatus, error: any): Tracing.Span['status'] => {
+    if (status === 'failed') {
+        return { code: 'ERROR', message: error instanceof Error ? error.message : String(error) };
+    }
+    return { code: status === 'succeeded' ? 'OK' : 'UNSET' };
+}
+
+// The span of a node execution is a child of the span of the predecessor that made the
+// node ready, linked to the spans of the other inputs of a join
+function startSpan(task: ReadyTask, state: ExecutionState): Omit<Tracing.Span, 'endTimeUnixNano' | 'status' | 'attributes'> | undefined {
+    if (!state.processSpan) {
+        return undefined;
+    }
+    const spanId = Tracing.createSpanId();
+    const parentSpanId = (task.sourceNodeId !== undefined ? state.spanIds.get(task.sourceNodeId) : undefined) ?? state.processSpan.spanId;
+    const links = Object.keys(task.arrivedInputs ?? {})
+        .filter(id => id !== task.sourceNodeId && state.spanIds.has(id))
+        .map(id => ({ traceId: state.processSpan!.traceId, spanId: state.spanIds.get(id)! }));
+    state.spanIds.set(task.nodeId, spanId);
+    return {
+        traceId: state.processSpan.traceId,
+        spanId,
+        parentSpanId,
+        name: task.nodeId,
+        kind: 'SPAN_KIND_INTERNAL',
+        startTimeUnixNano: Tracing.toUnixNano(new Date()),
+        links,
+    };
+}
+
+// Adds the timing of a node execution to the report, the metrics and the trace
+function recordNode(
+    task: ReadyTask,
+    state: ExecutionState,
+    span: ReturnType<typeof startSpan>,
+    result: { status: NodeStatus; startedAt: Date; attempts: number; input: Phase.Input; output?: Phase.Output; error?: any }
+): void {
+    const { nodeId } = task;
+    const endedAt = new Date();
+    // Serializing every value is only worth it when the sizes are measured
+    const measured = state.metrics !== undefined;
+    const timing: NodeTiming = {
+        queuedAt: task.queuedAt,
+        startedAt: result.startedAt,
+        endedAt,
+        queueMs: result.startedAt.getTime() - task.queuedAt.getTime(),
+        durationMs: endedAt.getTime() - result.startedAt.getTime(),
+        attempts: result.attempts,
+        // A piped stream is consumed while it is read, so its size is unknown
+        inputBytes: measured && !state.closePipes.has(nodeId) ? sizeOf(result.input) : undefined,
+        outputBytes: measured && result.output !== undefined ? sizeOf(result.output) : undefined,
+    };
+    state.timings.set(nodeId, [...(state.timings.get(nodeId) ?? []), timing]);
+
+    const attributes = { processName: state.process.name, nodeId, status: result.status };
+    state.metrics?.increment('zealux.node.executions', 1, attributes);
+    state.metrics?.increment('zealux.node.attempts', timing.attempts, attributes);
+    state.metrics?.record('zealux.node.duration_ms', timing.durationMs, attributes);
+    state.metrics?.record('zealux.node.queue_ms', timing.queueMs, attributes);
+    if (timing.inputBytes !== undefined) {
+        state.metrics?.record('zealux.node.input_bytes', timing.inputBytes, attributes);
+    }
+    if (timing.outputBytes !== undefined) {
+        state.metrics?.record('zealux.node.output_bytes', timing.outputBytes, attributes);
+    }
+
+    if (span) {
+        state.tracer!.export({
+            ...span,
+            endTimeUnixNano: Tracing.toUnixNano(endedAt),
+            attributes: {
+                'zealux.process.name': state.process.name,
+                'zealux.node.id': nodeId,
+                'zealux.phase.name': state.process.phases[nodeId].phase.name,
+                'zealux.node.iteration': task.iteration,
+                'zealux.node.status': result.status,
+                'zealux.node.attempts': timing.attempts,
+                'zealux.node.queue_ms': timing.queueMs,
+            },
+            status: spanStatus(result.status, result.error),
+        });
+    }
+}
+
+async function runNode(task: ReadyTask, state: ExecutionState, release: () => void): Promise<void> {
+    const nodeId = task.nodeId;
+    const node = state.process.phases[nodeId];
+    const processName = state.process.name;
+    const startedAt = new Date();
+    let phaseInput = task.input;
+    let output: Phase.Output;
+    let attempts = 0;
+    let piped = false;
+    let span: ReturnType<typeof startSpan>;
+    let cached = false;
+    // A piped stream is read once, so its consumer cannot retry
+    const readsPipe = state.closePipes.has(nodeId);
+    try {
+        // Join nodes receive the inputs delivered by their predecessors
+        if (node.join && task.arrivedInputs) {
+            phaseInput = node.join.merge ? node.join.merge(task.arrivedInputs) : task.arrivedInputs;
+        }
+        if (state.restoredOutputs.has(nodeId)) {
+            // Only the first iteration is restored, later iterations run again
+            output = state.restoredOutputs.get(nodeId)!;
+            state.restoredOutputs.delete(nodeId);
+            state.phaseResults.set(nodeId, output);
+            state.history.set(nodeId, [...(state.history.get(nodeId) ?? []), output]);
+            state.nodeStatuses[nodeId] = 'succeeded';
+            state.logger.debug(`Phase ${nodeId} restored from run ${state.runId}`, { processName, nodeId });
+            state.events?.emit('node:restored', { processName, nodeId, output });
+        } else {
+            span = startSpan(task, state);
+            state.logger.debug(`Starting phase ${nodeId}`, { processName, nodeId });
+            const sourceNodeIds = task.arrivedInputs ? Object.keys(task.arrivedInputs) : task.sourceNodeId !== undefined ? [task.sourceNodeId] : [];
+            state.events?.emit('node:start', { processName, nodeId, sourceNodeIds, input: phaseInput, startedAt });
+            const policy: Retry.Policy = { ...state.process.retry, ...node.retry, ...(readsPipe ? { maxAttempts: 1 } : {}) };
+            const context: Phase.Context = {
+                processContext: state.process.context,
+                runId: state.runId,
+                nodeId,
+                iteration: task.iteration,
+                outputs: Object.fromEntries(state.phaseResults),
+                store: state.store,
+                signal: state.signal,
+                events: state.events,
+                logger: state.logger,
+                ...(span ? { trace: { traceId: span.traceId, spanId: span.spanId } } : {}),
+            };
+            const onAttempt = (attempt: Retry.Attempt, item?: number) => {
+                attempts = attempt.attempt;
+                state.attempts.push(item !== undefined ? { nodeId, item, ...attempt } : { nodeId, ...attempt });
+            };
+            // Nodes that cache are never piped, see getPipes
+            const cacheKey = node.cache ? cacheKeyOf(node, phaseInput, state) : undefined;
+            const cachedOutput = cacheKey !== undefined ? await readCache(node, cacheKey, state) : undefined;
+            if (cachedOutput !== undefined) {
+                cached = true;
+                output = cachedOutput;
+                state.cacheHits.push(nodeId);
+                state.logger.debug(`Phase ${nodeId} output taken from the cache`, { processName, nodeId });
+            } else if (state.pipes.has(nodeId)) {
+                piped = true;
+                output = await pipeStream(node, phaseInput, context, release, state);
+            } else if (node.forEach) {
+                output = await executeForEach(node, phaseInput, context, policy, onAttempt, state);
+            } else {
+                const items = readsPipe ? undefined : collectedItems(task, node, phaseInput, state);
+                // A stream can only be read by the phase, so it is not checked
+                if (!readsPipe && !items) {
+                    Schema.assertValid(node.phase.inputSchema, phaseInput, `Invalid input for phase ${nodeId}`);
+                }
+                output = await Retry.execute(
+                    // Every attempt reads the items from the start
+                    (_, signal) => executePhase(
+                        node,
+                        items ? iterate(items) as unknown as Phase.Input : phaseInput,
+                        { ...context, signal: signal ?? context.signal }
+                    ),
+                    policy,
+                    onAttempt,
+                    state.signal
+                );
+            }
+            if (cacheKey !== undefined && !cached) {
+                await writeCache(node, cacheKey, output, state);
+            }
+            // A node only counts as succeeded once its output is saved
+            await state.stateStore?.saveNode(state.runId, nodeId, { status: 'succeeded', output, updatedAt: new Date().toISOString() });
             state.phaseResults.set(nodeId, output); // Cache the result
+            state.history.set(nodeId, [...(state.history.get(nodeId) ?? []), output]);
+            state.nodeStatuses[nodeId] = 'succeeded';
+            const endedAt = new Date();
+            state.logger.debug(`Phase ${nodeId} succeeded`, { processName, nodeId, attempts });
+            state.events?.emit('node:success', {
+                processName, nodeId, input: phaseInput, output, startedAt, endedAt,
+                durationMs: endedAt.getTime() - startedAt.getTime(),
+                attempts,
+                ...(cached ? { cached } : {}),
+            });
+            recordNode(task, state, span, { status: 'succeeded', startedAt, attempts, input: phaseInput, output });
+        }
+    } catch (error) {
+        if (state.signal?.aborted) {
+            state.nodeStatuses[nodeId] = 'cancelled';
+            recordNode(task, state, span, { status: 'cancelled', startedAt, attempts, input: phaseInput });
+            return;
+        }
+        state.logger.error(`Error executing phase ${nodeId}`, { processName, nodeId, error });
+        state.errors.push(attempts > 0 ? { nodeId, error, attempt: attempts } : { nodeId, error });
+        state.nodeStatuses[nodeId] = 'failed';
+        const endedAt = new Date();
+        state.events?.emit('node:error', {
+            processName, nodeId, input: phaseInput, error, startedAt, endedAt,
+            durationMs: endedAt.getTime() - startedAt.getTime(),
+            attempts,
+        });
+        recordNode(task, state, span, { status: 'failed', startedAt, attempts, input: phaseInput, error });
+        try {
+            await state.stateStore?.saveNode(state.runId, nodeId, { status: 'failed', updatedAt: endedAt.toISOString() });
+        } catch (saveError) {
+            // The node failed anyway, so it runs again when the run is resumed
+            state.logger.error(`Error saving the state of phase ${nodeId}`, { processName, nodeId, error: saveError });
+        }
+        return;
+    } finally {
+        if (readsPipe) {
+            state.closePipes.get(nodeId)!();
+            state.closePipes.delete(nodeId);
+        }
+    }
 
-            // 4. Trigger next phases (fan-out)
-            if (node.next && node.next.length > 0) {
-                const nextPhasePromises: Promise<Phase.Output>[] = [];
-                for (const connection of node.next) {
-                    let nextInput = output as Phase.Input;
-                    if (connection.transform) {
-                        try {
-                            nextInput = connection.transform(output);
-                        } catch (transformError) {
-                            // eslint-disable-next-line no-console
-                            console.error(`Error in transform for connection ${nodeId} -> ${connection.targetPhaseNodeId}:`, transformError);
-                            state.errors.push({ nodeId: connection.targetPhaseNodeId, error: transformError });
-                            continue;
-                        }
-                    }
-                    nextPhasePromises.push(executeNodeRecursive(connection.targetPhaseNodeId, nextInput, state));
+    // The consumer of a pipe already received the stream
+    if (piped) {
+        return;
+    }
+
+    // Make the next phases ready (fan-out); they start as execution slots free up
+    const { fired, notFired } = selectConnections(node, output, state);
+    for (const connection of fired) {
+        let nextInput = output as Phase.Input;
+        if (connection.transform) {
+            try {
+                nextInput = connection.transform(output);
+                const target = state.process.phases[connection.targetPhaseNodeId];
+                if (!target.join && !target.forEach) {
+                    Schema.assertValid(target.phase.inputSchema, nextInput, `Invalid input for phase ${connection.targetPhaseNodeId} from the transform of ${nodeId}`);
                 }
-                // Optional: await Promise.all(nextPhasePromises);
+            } catch (transformError) {
+                state.logger.error(`Error in transform for connection ${nodeId} -> ${connection.targetPhaseNodeId}`, {
+                    processName: state.process.name,
+                    nodeId: connection.targetPhaseNodeId,
+                    error: transformError,
+                });
+                state.errors.push({ nodeId: connection.targetPhaseNodeId, error: transformError });
+                state.nodeStatuses[connection.targetPhaseNodeId] = 'failed';
+                state.events?.emit('transform:error', {
+                    processName: state.process.name,
+                    sourceNodeId: nodeId,
+                    targetNodeId: connection.targetPhaseNodeId,
+                    output,
+                    error: transformError,
+                });
+                continue;
             }
-            return output;
+        }
+        deliverInput(nodeId, connection.targetPhaseNodeId, nextInput, state);
+    }
+    for (const connection of notFired) {
+        skipConnection(nodeId, connection.targetPhaseNodeId, state);
+    }
+}
+
+// Nodes with their own cap, and the nodes on a cycle which are only bounded by the
+// process cap or by the capped nodes validateProcess found on every cycle
+function getIterationCaps(process: Process.Instance): Map<string, number> {
+    const caps = new Map<string, number>();
+    for (const id of findCycles(process).flat()) {
+        caps.set(id, process.maxIterations ?? Infinity);
+    }
+    for (const [id, node] of Object.entries(process.phases)) {
+        if (node.maxIterations !== undefined) {
+            caps.set(id, node.maxIterations);
+        }
+    }
+    return caps;
+}
+
+// Loggers and emitters are supplied by the caller, so their errors must not change the
+// status of a node or stop the execution
+function isolateLogger(logger: Logger.Instance): Logger.Instance {
+    const write = (level: keyof Logger.Instance) => (message: string, fields?: Logger.Fields) => {
+        try {
+            logger[level](message, fields);
+        } catch {
+            // There is no other place to report the error of a logger
+        }
+    };
+    return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+function isolateEmitter(events: Events.Emitter, logger: Logger.Instance): Events.Emitter {
+    return {
+        on: (name, listener) => events.on(name, listener),
+        emit: (name, event) => {
+            try {
+                events.emit(name, event);
+            } catch (error) {
+                logger.error(`Error emitting event ${name}`, { processName: event.processName, error });
+            }
+        },
+    };
+}
+
+function isolateSink(metrics: Metrics.Sink, logger: Logger.Instance, processName: string): Metrics.Sink {
+    const measure = (kind: keyof Metrics.Sink) => (name: string, value: number, attributes: Metrics.Attributes) => {
+        try {
+            metrics[kind](name, value, attributes);
         } catch (error) {
-            // eslint-disable-next-line no-console
-            console.error(`Error executing phase ${nodeId}:`, error);
-            state.errors.push({ nodeId, error });
-            throw error;
-        } finally {
-            state.activeExecutions.delete(nodeId); // Clean up
+            logger.error(`Error recording metric ${name}`, { processName, error });
         }
-    })();
+    };
+    return { increment: measure('increment'), record: measure('record') };
+}
 
-    state.activeExecutions.set(nodeId, executionPromise);
-    return executionPromise;
+function isolateExporter(tracer: Tracing.Exporter, logger: Logger.Instance, processName: string): Tracing.Exporter {
+    return {
+        export: (span) => {
+            try {
+                tracer.export(span);
+            } catch (error) {
+                logger.error(`Error exporting span ${span.name}`, { processName, spanId: span.spanId, error });
+            }
+        },
+    };
+}
+
+function createStore(): Phase.Store {
+    const values = new Map<string, unknown>();
+    return {
+        get: <T = unknown>(key: string) => values.get(key) as T | undefined,
+        set: (key: string, value: unknown) => {
+            values.set(key, value);
+        },
+        has: (key: string) => values.has(key),
+    };
 }
 
 function gatherResults(state: ExecutionState): ExecutionResults {
@@ -160,9 +1183,8 @@ function gatherResults(state: ExecutionState): ExecutionResults {
             hasExplicitEndPhases = true;
             if (state.phaseResults.has(nodeId)) {
                 results[nodeId] = state.phaseResults.get(nodeId)!;
-            } else if (!state.errors.find(e => e.nodeId === nodeId)) {
-                // eslint-disable-next-line no-console
-                console.warn(`End phase "${nodeId}" did not execute or produce a result.`);
+            } else if (state.nodeStatuses[nodeId] === 'pending' && !state.signal?.aborted) {
+                state.logger.warn(`End phase "${nodeId}" did not execute or produce a result.`, { processName: state.process.name, nodeId });
             }
         }
     }
@@ -180,8 +1202,7 @@ function gatherResults(state: ExecutionState): ExecutionResults {
     }
 
     if (state.errors.length > 0) {
-        // eslint-disable-next-line no-console
-        console.warn("Process execution completed with errors:", state.errors);
+        state.logger.warn("Process execution completed with errors.", { processName: state.process.name, errors: state.errors });
     }
 
     return results;
@@ -189,32 +1210,143 @@ function gatherResults(state: ExecutionState): ExecutionResults {
 
 export async function executeProcess(
     processInstance: Process.Instance,
-    initialInput: Phase.Input
-): Promise<ExecutionResults> {
-    const validationErrors = validateProcess(processInstance);
+    initialInput: Phase.Input,
+    options: ExecutionOptions = {}
+): Promise<ExecutionReport> {
+    const validationErrors = validateProcess(processInstance, { warningsAsErrors: options.strict });
     if (validationErrors.length > 0) {
         throw new Error(`Invalid process definition:\n${validationErrors.join('\n')}`);
     }
 
+    if (options.concurrency !== undefined && (!Number.isInteger(options.concurrency) || options.concurrency < 1)) {
+        throw new Error('Invalid execution options: concurrency should be a positive integer.');
+    }
+
+    if (options.resume && (options.runId === undefined || !options.stateStore)) {
+        throw new Error('Invalid execution options: resume requires a runId and a stateStore.');
+    }
+
+    const runId = options.runId ?? randomUUID();
+    const pipes = getPipes(processInstance);
+    const restoredOutputs = new Map<string, Phase.Output>();
+    if (options.resume) {
+        const run = await options.stateStore!.load(runId);
+        if (!run) {
+            throw new Error(`No saved state for run "${runId}".`);
+        }
+        // Node ids of another process can match without the outputs meaning the same
+        if (run.processName !== processInstance.name) {
+            throw new Error(`Run "${runId}" was saved by process "${run.processName}", not "${processInstance.name}".`);
+        }
+        // A stream producer runs again unless its consumer has finished too
+        const succeeded = (nodeId: string) => run.nodes[nodeId]?.status === 'succeeded';
+        for (const [nodeId, nodeState] of Object.entries(run.nodes)) {
+            if (succeeded(nodeId) && processInstance.phases[nodeId] && (!pipes.has(nodeId) || succeeded(pipes.get(nodeId)!))) {
+                restoredOutputs.set(nodeId, nodeState.output!);
+            }
+        }
+    } else {
+        await options.stateStore?.start(runId, processInstance.name);
+    }
+
+    const startedAt = new Date();
+    const logger = isolateLogger(options.logger ?? Logger.createSilentLogger());
+    let drained!: () => void;
+    const finished = new Promise<void>(resolve => {
+        drained = resolve;
+    });
     const state: ExecutionState = {
         process: processInstance,
+        runId,
+        store: createStore(),
+        signal: options.signal,
+        events: options.events && isolateEmitter(options.events, logger),
+        logger,
+        stateStore: options.stateStore,
+        restoredOutputs,
+        concurrency: options.concurrency ?? Infinity,
+        readyQueue: [],
+        entries: new Map<string, number>(),
+        iterationCaps: getIterationCaps(processInstance),
+        pipes,
+        closePipes: new Map<string, () => void>(),
+        running: 0,
+        active: 0,
+        runningBySource: new Map<string, number>(),
+        drained,
         phaseResults: new Map<string, Phase.Output>(),
-        activeExecutions: new Map<string, Promise<Phase.Output>>(),
+        history: new Map<string, Phase.Output[]>(),
+        timings: new Map<string, NodeTiming[]>(),
+        metrics: options.metrics && isolateSink(options.metrics, logger, processInstance.name),
+        tracer: options.tracer && isolateExporter(options.tracer, logger, processInstance.name),
+        processSpan: options.tracer ? { traceId: Tracing.createTraceId(), spanId: Tracing.createSpanId() } : undefined,
+        spanIds: new Map<string, string>(),
+        joinInputs: new Map<string, Record<string, Phase.Input>>(),
+        skippedInbound: new Map<string, Set<string>>(),
+        nodeStatuses: Object.fromEntries(Object.keys(processInstance.phases).map(id => [id, 'pending' as NodeStatus])),
         errors: [],
+        attempts: [],
+        cacheHits: [],
     };
 
     if (!state.process.phases[state.process.startPhaseId]) {
         throw new Error(`Start phase ID "${state.process.startPhaseId}" not found in process phases.`);
     }
 
-    try {
-        await executeNodeRecursive(state.process.startPhaseId, initialInput, state);
-    } catch (error) {
-        // eslint-disable-next-line no-console
-        console.error("Critical error during process execution orchestration:", error);
-        // Depending on desired behavior, you might want to re-throw or handle differently
+    state.logger.info(`Executing process ${processInstance.name}`, { processName: processInstance.name });
+    state.events?.emit('process:start', { processName: processInstance.name, input: initialInput, startedAt });
+    enqueueNode(state.process.startPhaseId, initialInput, state);
+    dispatch(state);
+    await finished;
+
+    const cancelled = options.signal?.aborted ?? false;
+    const results = gatherResults(state);
+    for (const nodeId in state.nodeStatuses) {
+        if (state.nodeStatuses[nodeId] === 'pending') {
+            state.nodeStatuses[nodeId] = cancelled ? 'cancelled' : 'skipped';
+            if (!cancelled) {
+                state.events?.emit('node:skipped', { processName: processInstance.name, nodeId });
+            }
+        }
     }
 
-    return gatherResults(state);
+    const report: ExecutionReport = {
+        processName: processInstance.name,
+        runId: state.runId,
+        success: state.errors.length === 0 && !cancelled,
+        cancelled,
+        startedAt,
+        endedAt: new Date(),
+        nodeStatuses: state.nodeStatuses,
+        errors: state.errors,
+        attempts: state.attempts,
+        history: Object.fromEntries(state.history),
+        timings: Object.fromEntries(state.timings),
+        traceId: state.processSpan?.traceId,
+        cacheHits: state.cacheHits,
+        results,
+    };
+    const status = report.success ? 'succeeded' : cancelled ? 'cancelled' : 'failed';
+    state.metrics?.increment('zealux.process.executions', 1, { processName: processInstance.name, status });
+    state.metrics?.record('zealux.process.duration_ms', report.endedAt.getTime() - startedAt.getTime(), { processName: processInstance.name, status });
+    if (state.processSpan) {
+        state.tracer!.export({
+            ...state.processSpan,
+            name: processInstance.name,
+            kind: 'SPAN_KIND_INTERNAL',
+            startTimeUnixNano: Tracing.toUnixNano(startedAt),
+            endTimeUnixNano: Tracing.toUnixNano(report.endedAt),
+            attributes: { 'zealux.process.name': processInstance.name, 'zealux.run.id': runId, 'zealux.process.status': status },
+            status: spanStatus(status, state.errors[0]?.error),
+            links: [],
+        });
+    }
+    state.logger.info(`Process ${processInstance.name} ${report.success ? 'succeeded' : 'did not succeed'}`, {
+        processName: processInstance.name,
+        cancelled,
+        durationMs: report.endedAt.getTime() - startedAt.getTime(),
+    });
+    state.events?.emit('process:end', { processName: processInstance.name, report });
+    return report;
 }
 
@@ -0,0 +1,201 @@
+import { readFile } from 'fs/promises';
+import yaml from 'js-yaml';
+import * as Phase from './phase';
+import * as PhaseNode from './phasenode';
+import * as Process from './process';
+import { diagnoseProcess } from './execution';
+
+// Creates a phase from the options of a node in a process document
+export type Factory = (options: Record<string, unknown>) => Phase.Instance<any, any>;
+
+export interface Registry {
+    register: (name: string, factory: Factory) => void;
+    get: (name: string) => Factory | undefined;
+    names: () => string[];
+}
+
+export interface Result {
+    process?: Process.Instance; // Set when the document has no errors
+    errors: string[]; // Prefixed with the line the error was found on
+    warnings: string[]; // Problems of a valid process found by diagnoseProcess, prefixed like the errors
+}
+
+const ROOT_KEYS = ['name', 'context', 'startPhaseId', 'retry', 'maxIterations', 'nodes'];
+const NODE_KEYS = ['phase', 'options', 'next', 'end', 'join', 'routing', 'retry', 'priority', 'fanOutConcurrency', 'maxIterations', 'forEach'];
+const CONNECTION_KEYS = ['target', 'isDefault'];
+const FOR_EACH_KEYS = ['items', 'concurrency', 'onItemError'];
+
+export const createRegistry = (factories: Record<string, Factory> = {}): Registry => {
+    const registered = new Map<string, Factory>(Object.entries(factories));
+    return {
+        register: (name, factory) => {
+            if (registered.has(name)) {
+                throw new Error(`Phase "${name}" is already registered.`);
+            }
+            registered.set(name, factory);
+        },
+        get: (name) => registered.get(name),
+        names: () => [...registered.keys()],
+    };
+}
+
+const isObject = (value: unknown): value is Record<string, any> => {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Items of a forEach node are named by a property path of the input, e.g. "order.lines"
+const selectPath = (path: string) => (input: Phase.Input): unknown => {
+    return path.split('.').reduce<any>((value, key) => value?.[key], input);
+}
+
+// Parses a YAML or JSON document and remembers the line every object and array starts on
+function parseDocument(source: string): { document?: unknown; lines: Map<unknown, number>; errors: string[] } {
+    const lines = new Map<unknown, number>();
+    const openedAt: number[] = [];
+    try {
+        const document = yaml.load(source, {
+            listener: (eventType, state) => {
+                if (eventType === 'open') {
+                    openedAt.push(state.line + 1);
+                } else {
+                    const line = openedAt.pop();
+                    if (state.result !== null && typeof state.result === 'object') {
+                        lines.set(state.result, line!);
+                    }
+                }
+            },
+        });
+        return { document, lines, errors: [] };
+    } catch (error) {
+        const { mark, reason } = error as yaml.YAMLException;
+        return { lines, errors: [`Line ${mark.line + 1}: ${reason}`] };
+    }
+}
+
+// Reads a process document. Phase names are resolved against the registry and the
+// resulting process is checked with diagnoseProcess.
+export function read(source: string, registry: Registry): Result {
+    const { document, lines, errors } = parseDocument(source);
+    const warnings: string[] = [];
+    if (errors.length > 0) {
+        return { errors, warnings };
+    }
+    const lineOf = (value: unknown, fallback: number = 1): number => lines.get(value) ?? fallback;
+    const report = (line: number, message: string) => errors.push(`Line ${line}: ${message}`);
+    const checkKeys = (value: Record<string, unknown>, allowed: string[], owner: string) => {
+        for (const key of Object.keys(value).filter(key => !allowed.includes(key))) {
+            report(lineOf(value), `${owner} has an unknown property "${key}".`);
+        }
+    }
+
+    if (!isObject(document)) {
+        report(1, 'The document should be an object.');
+        return { errors, warnings };
+    }
+    checkKeys(document, ROOT_KEYS, 'The process');
+    if (typeof document.name !== 'string' || !document.name) {
+        report(lineOf(document), "The process 'name' is missing or not a string.");
+    }
+    if (document.context !== undefined && !isObject(document.context)) {
+        report(lineOf(document), "The process 'context' should be an object.");
+    }
+    if (!isObject(document.nodes)) {
+        report(lineOf(document), "The process 'nodes' are missing or not an object.");
+        return { errors, warnings };
+    }
+
+    const phases: Record<string, PhaseNode.Instance> = {};
+    for (const [id, node] of Object.entries(document.nodes)) {
+        const nodeLine = lineOf(node, lineOf(document.nodes));
+        if (!isObject(node)) {
+            report(nodeLine, `Node "${id}" should be an object.`);
+            continue;
+        }
+        checkKeys(node, NODE_KEYS, `Node "${id}"`);
+        const { phase: phaseName, options = {}, next = [], end, forEach, ...settings } = node;
+
+        let phase: Phase.Instance<any, any> | undefined;
+        const factory = registry.get(phaseName);
+        if (typeof phaseName !== 'string') {
+            report(nodeLine, `Node "${id}" is missing a 'phase' name.`);
+        } else if (!factory) {
+            report(nodeLine, `Node "${id}" uses unknown phase "${phaseName}" (registered phases: ${registry.names().join(', ') || 'none'}).`);
+        } else if (!isObject(options)) {
+            report(nodeLine, `Node "${id}" has invalid 'options' (should be an object).`);
+        } else {
+            try {
+                phase = factory(options);
+            } catch (error) {
+                report(nodeLine, `Node "${id}" could not create phase "${phaseName}": ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        if (end !== undefined && typeof end !== 'boolean') {
+            report(nodeLine, `Node "${id}" has an invalid 'end' (should be a boolean).`);
+        }
+
+        if (forEach !== undefined) {
+            if (isObject(forEach) && typeof forEach.items === 'string' && forEach.items) {
+                checkKeys(forEach, FOR_EACH_KEYS, `The forEach of node "${id}"`);
+                settings.forEach = { ...forEach, items: selectPath(forEach.items) };
+            } else {
+                report(lineOf(forEach, nodeLine), `Node "${id}" has an invalid 'forEach' (should be an object with an 'items' property path).`);
+            }
+        }
+
+        const connections: PhaseNode.Connection[] = [];
+        if (!Array.isArray(next)) {
+            report(nodeLine, `Node "${id}" has an invalid 'next' (should be a list of connections).`);
+        } else {
+            for (const connection of next) {
+                if (typeof connection === 'string') {
+                    connections.push({ targetPhaseNodeId: connection });
+                } else if (isObject(connection) && typeof connection.target === 'string') {
+                    checkKeys(connection, CONNECTION_KEYS, `The connection from "${id}" to "${connection.target}"`);
+                    connections.push({ targetPhaseNodeId: connection.target, ...(connection.isDefault !== undefined ? { isDefault: connection.isDefault } : {}) });
+                } else {
+                    report(lineOf(connection, lineOf(next)), `Node "${id}" has an invalid connection (should be a node id or an object with a 'target').`);
+                }
+            }
+        }
+
+        if (phase) {
+            phases[id] = { ...settings, id, phase, next: connections, ...(end !== undefined ? { isEndPhase: end } : {}) };
+        }
+    }
+
+    if (errors.length > 0) {
+        return { errors, warnings };
+    }
+
+    const process: Process.Instance = {
+        name: document.name,
+        context: document.context ?? {},
+        phases,
+        startPhaseId: document.startPhaseId,
+        ...(document.retry !== undefined ? { retry: document.retry } : {}),
+        ...(document.maxIterations !== undefined ? { maxIterations: document.maxIterations } : {}),
+    };
+    // Findings about a node are reported on the line of that node
+    for (const { severity, nodeId, message } of diagnoseProcess(process)) {
+        const line = lineOf(nodeId !== undefined ? document.nodes[nodeId] : document);
+        if (severity === 'error') {
+            report(line, message);
+        } else {
+            warnings.push(`Line ${line}: ${message}`);
+        }
+    }
+    return errors.length > 0 ? { errors, warnings } : { process, errors, warnings };
+}
+
+// Like read, but throws when the document has errors
+export function parse(source: string, registry: Registry): Process.Instance {
+    const { process, errors } = read(source, registry);
+    if (!process) {
+        throw new Error(`Invalid process definition:\n${errors.join('\n')}`);
+    }
+    return process;
+}
+
+export async function load(path: string, registry: Registry): Promise<Process.Instance> {
+    return parse(await readFile(path, 'utf8'), registry);
+}
@@ -0,0 +1,33 @@
+// Structured context attached to a log message
+export interface Fields {
+    processName?: string;
+    nodeId?: string;
+    [key: string]: unknown;
+}
+
+export interface Instance {
+    debug: (message: string, fields?: Fields) => void;
+    info: (message: string, fields?: Fields) => void;
+    warn: (message: string, fields?: Fields) => void;
+    error: (message: string, fields?: Fields) => void;
+}
+
+// Discards every message, used when no logger is configured
+export const createSilentLogger = (): Instance => {
+    const ignore = () => { };
+    return { debug: ignore, info: ignore, warn: ignore, error: ignore };
+}
+
+// Writes messages to the console, followed by their fields when there are any
+export const createConsoleLogger = (): Instance => {
+    const write = (level: 'debug' | 'info' | 'warn' | 'error') => (message: string, fields?: Fields) => {
+        if (fields) {
+            // eslint-disable-next-line no-console
+            console[level](message, fields);
+        } else {
+            // eslint-disable-next-line no-console
+            console[level](message);
+        }
+    };
+    return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
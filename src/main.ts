@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import * as Cli from './cli';
+
+process.exitCode = await Cli.main(process.argv.slice(2));
@@ -0,0 +1,53 @@
+export type Attributes = Record<string, string | number | boolean>;
+
+// Receives the measurements of process executions. Adapters forward them to a metrics
+// backend such as Prometheus, StatsD or an OpenTelemetry meter.
+export interface Sink {
+    increment: (name: string, value: number, attributes: Attributes) => void; // Adds to a counter
+    record: (name: string, value: number, attributes: Attributes) => void; // Adds a value to a histogram
+}
+
+export interface Histogram {
+    count: number;
+    sum: number;
+    min: number;
+    max: number;
+}
+
+// Keyed by the metric name followed by its attributes, e.g. 'zealux.node.duration_ms{nodeId=load,processName=Orders}'
+export interface Snapshot {
+    counters: Record<string, number>;
+    histograms: Record<string, Histogram>;
+}
+
+export interface MemorySink extends Sink {
+    snapshot: () => Snapshot;
+}
+
+export const keyOf = (name: string, attributes: Attributes): string => {
+    const pairs = Object.keys(attributes).sort().map(key => `${key}=${attributes[key]}`);
+    return pairs.length > 0 ? `${name}{${pairs.join(',')}}` : name;
+}
+
+// Aggregates the measurements in memory, useful for tests and for reports at the end of a job
+export const createMemorySink = (): MemorySink => {
+    const counters: Record<string, number> = {};
+    const histograms: Record<string, Histogram> = {};
+    return {
+        increment: (name, value, attributes) => {
+            const key = keyOf(name, attributes);
+            counters[key] = (counters[key] ?? 0) + value;
+        },
+        record: (name, value, attributes) => {
+            const key = keyOf(name, attributes);
+            const histogram = histograms[key] ?? { count: 0, sum: 0, min: value, max: value };
+            histograms[key] = {
+                count: histogram.count + 1,
+                sum: histogram.sum + value,
+                min: Math.min(histogram.min, value),
+                max: Math.max(histogram.max, value),
+            };
+        },
+        snapshot: () => structuredClone({ counters, histograms }),
+    };
+}
@@ -1,3 +1,9 @@
+import * as Process from './process';
+import * as Events from './events';
+import * as Logger from './logger';
+import * as Schema from './schema';
+import * as Tracing from './tracing';
+
 export interface Input {
     [key: string]: unknown;
 }
@@ -7,11 +13,70 @@ export interface Output {
 }
 
 
-export interface Instance {
+// Key/value store shared by the phases of a single process execution.
+// Phases write values to it for the phases that run after them.
+export interface Store {
+    get: <T = unknown>(key: string) => T | undefined;
+    set: (key: string, value: unknown) => void;
+    has: (key: string) => boolean;
+}
+
+// Passed to every execute call by the execution engine
+export interface Context {
+    processContext: Process.Context; // The context of the process being executed
+    runId: string; // Identifies the process execution
+    nodeId: string; // The PhaseNode this phase is executed for
+    iteration: number; // 1 for the first execution of the node, counting up every time a loop re-enters it
+    item?: number; // Index of the item when the phase runs for an item of a forEach node
+    outputs: Readonly<Record<string, Output>>; // Outputs of the nodes that finished before this one started
+    store: Store;
+    signal?: AbortSignal; // Aborted when the process execution is cancelled
+    events?: Events.Emitter; // The emitter of the process execution, if it has one
+    logger: Logger.Instance; // The logger of the process execution
+    trace?: Tracing.SpanContext; // The span of this node execution, when the execution is traced
+}
+
+// I and O describe the shape of the phase input and output. They default to the
+// untyped Input and Output bags.
+export interface Instance<I = Input, O = Output> {
     name: string;
-    execute: (input: Input) => Promise<Output>;
+    execute: (input: I, context?: Context) => Promise<O>;
+    inputSchema?: Schema.Validator; // Optional: the engine checks the input against it before execute
+    outputSchema?: Schema.Validator; // Optional: the engine checks the output against it after execute
+}
+
+// Output of a stream phase that runs like any other phase: every item it yielded
+export interface StreamOutput<T = unknown> extends Output {
+    items: T[];
 }
 
+// A phase that yields its output item by item. Connected to another stream phase, its items
+// are piped through as the next phase reads them; anywhere else execute collects them.
+export interface StreamInstance<I = Input, T = unknown> extends Instance<I, StreamOutput<T>> {
+    stream: (input: I, context?: Context) => AsyncIterable<T>;
+}
+
+// Input and output types of a phase, e.g. InputOf<typeof myPhase>
+export type InputOf<P> = P extends Instance<infer I, any> ? I : never;
+export type OutputOf<P> = P extends Instance<any, infer O> ? O : never;
+
 export const isPhase = (obj: any): obj is Instance => {
     return obj !== undefined && obj !== null && typeof obj === 'object' && typeof obj.name === 'string' && typeof obj.execute === 'function';
-}
\ No newline at end of file
+}
+
+export const isStreamPhase = (obj: any): obj is StreamInstance => {
+    return isPhase(obj) && typeof (obj as StreamInstance).stream === 'function';
+}
+
+// Creates a stream phase from an async generator, e.g. one that reads a file line by line
+export const createStream = <I = Input, T = unknown>(name: string, stream: (input: I, context?: Context) => AsyncIterable<T>): StreamInstance<I, T> => ({
+    name,
+    stream,
+    execute: async (input, context) => {
+        const items: T[] = [];
+        for await (const item of stream(input, context)) {
+            items.push(item);
+        }
+        return { items };
+    },
+});
\ No newline at end of file
@@ -1,21 +1,78 @@
 import * as Phase from './phase';
 import { isPhase } from './phase';
+import * as Process from './process';
+import * as Retry from './retry';
+import * as Cache from './cache';
 
-export interface Connection {
+// O is the output type of the source node and I the input type of the target node
+export interface Connection<O = Phase.Output, I = Phase.Input> {
     targetPhaseNodeId: string; // ID of the target PhaseNode in the process's phases collection
     // Optional function to transform the output of the current phase
     // to the input of the target phase.
     // If not provided, the output is assumed to be compatible directly.
-    transform?: (output: Phase.Output) => Phase.Input;
+    transform?: (output: O) => I;
+    // Optional guard evaluated against the phase output and the process context.
+    // The connection only fires when it returns true.
+    condition?: (output: O, context: Process.Context) => boolean;
+    // Optional: true if this connection fires only when no other connection of the node fired
+    isDefault?: boolean;
 }
 
-export interface Instance {
+// How a node chooses among its outgoing connections: 'all' fires every
+// connection whose condition passes, 'first' fires only the first one (switch style).
+export type Routing = 'all' | 'first';
+
+// How a node with several predecessors decides when it is ready to execute:
+// 'all' waits for every predecessor, 'any' runs on the first arrival and
+// 'count' waits for the number of predecessors given in Join.count.
+export type JoinMode = 'all' | 'any' | 'count';
+
+export interface Join {
+    mode: JoinMode;
+    count?: number; // Required when mode is 'count'
+    // Optional function to combine the inputs that arrived from predecessors.
+    // If not provided, the phase receives an object keyed by source node id.
+    merge?: (inputs: Record<string, Phase.Input>) => Phase.Input;
+}
+
+// What a forEach node does when the phase fails for an item: 'collect' records the error
+// and carries on with the other items, 'fail' stops starting items and fails the node.
+export type ItemErrorMode = 'collect' | 'fail';
+
+// Runs the phase once per item selected from the node input
+export interface ForEach<I = any, T = any> {
+    items: (input: I) => T[];
+    concurrency?: number; // Optional: maximum number of items processed at the same time, the execution concurrency by default
+    onItemError?: ItemErrorMode; // Optional: defaults to 'collect'
+}
+
+export interface ItemError {
+    index: number; // Position of the item in the selected items
+    error: any;
+}
+
+// Output of a forEach node, in the order of the items
+export interface ForEachOutput<O = Phase.Output> extends Phase.Output {
+    outputs: (O | undefined)[]; // undefined for the items that failed
+    errors: ItemError[];
+}
+
+// I and O are the input and output types of the node's phase
+export interface Instance<I = any, O = any> {
     id: string; // Unique identifier for this phase node within the process
-    phase: Phase.Instance; // The actual phase instance
-    next: Connection[]; // Renamed from 'outgoingConnections'
+    phase: Phase.Instance<I, O>; // The actual phase instance
+    next: Connection<O, any>[]; // Renamed from 'outgoingConnections'
     isEndPhase?: boolean; // Optional: true if this is a terminal node in the process graph
+    join?: Join; // Optional: wait for predecessors and merge their outputs before executing
+    routing?: Routing; // Optional: defaults to 'all'
+    retry?: Retry.Policy; // Optional: overrides the process retry policy for this node
+    priority?: number; // Optional: ready nodes with a higher priority start first, defaults to 0
+    fanOutConcurrency?: number; // Optional: maximum number of this node's successors running at the same time
+    maxIterations?: number; // Optional: how often a loop may re-enter the node, nodes run at most once otherwise
+    forEach?: ForEach; // Optional: run the phase for every item of the input instead of once
+    cache?: Cache.Options; // Optional: reuse the output of an earlier execution for the same input, also across runs
 }
 
 export const isPhaseNode = (obj: any): obj is Instance => {
     return obj !== undefined && obj !== null && typeof obj === 'object' && typeof obj.id === 'string' && typeof obj.phase === 'object' && isPhase(obj.phase);
-}
\ No newline at end of file
+}
@@ -0,0 +1,71 @@
+import * as Phase from './phase';
+import * as Process from './process';
+import * as PhaseNode from './phasenode';
+import * as Execution from './execution';
+
+// What a phase is replaced with in a plan: a fixed output, or a function of the input,
+// e.g. to leave a loop after a few iterations
+export type Stub = Phase.Output | ((input: Phase.Input, context: Phase.Context) => Phase.Output);
+
+export interface Options {
+    outputs?: Record<string, Stub>; // Optional: stubs by node id. Nodes without one pass their input on.
+}
+
+// One execution of a phase that would happen, for an item when the node is a forEach node
+export interface Step {
+    nodeId: string;
+    iteration: number;
+    item?: number;
+    input: Phase.Input;
+    output: Phase.Output;
+}
+
+export interface Instance {
+    processName: string;
+    steps: Step[]; // In the order the phases would run
+    order: string[]; // The nodes that would run, in the order of their first step
+    skipped: string[]; // The nodes no connection would reach
+    endPhases: string[]; // The nodes whose outputs would be the results of the run
+    errors: Execution.ExecutionError[]; // Transforms, conditions and stubs that would fail
+    results: Execution.ExecutionResults; // The results built from the stubs
+}
+
+// A phase that records its step and returns the stub of the node instead of executing
+function stubPhase(node: PhaseNode.Instance, stub: Stub | undefined, steps: Step[]): Phase.Instance {
+    return {
+        name: node.phase.name,
+        execute: async (input, context) => {
+            const output = typeof stub === 'function' ? stub(input, context!) : stub ?? input;
+            const step: Step = { nodeId: context!.nodeId, iteration: context!.iteration, input, output };
+            steps.push(context!.item !== undefined ? { ...step, item: context!.item } : step);
+            return output;
+        },
+    };
+}
+
+// Walks the process the way executeProcess would, one node at a time, without executing
+// a single phase. Conditions, transforms and join merges run against the stub outputs.
+// Throws like executeProcess for processes that validateProcess rejects.
+export async function planProcess(process: Process.Instance, initialInput: Phase.Input, options: Options = {}): Promise<Instance> {
+    const steps: Step[] = [];
+    const outputs = options.outputs ?? {};
+    // Without retries a failing stub is reported at once, and stubs neither read nor fill caches
+    const stubbed: Process.Instance = {
+        ...process,
+        retry: undefined,
+        phases: Object.fromEntries(Object.entries(process.phases).map(([id, node]) => [
+            id,
+            { ...node, retry: undefined, cache: undefined, phase: stubPhase(node, outputs[id], steps) },
+        ])),
+    };
+    const report = await Execution.executeProcess(stubbed, initialInput, { concurrency: 1 });
+    return {
+        processName: process.name,
+        steps,
+        order: [...new Set(steps.map(step => step.nodeId))],
+        skipped: Object.keys(report.nodeStatuses).filter(id => report.nodeStatuses[id] === 'skipped'),
+        endPhases: Object.keys(report.results),
+        errors: report.errors,
+        results: report.results,
+    };
+}
@@ -2,7 +2,10 @@
 // import * as TranscribePhase from './phases/transcribe';
 // import * as ComposePhase from './phases/compose';
 // import * as CompletePhase from './phases/complete';
+import * as Phase from './phase';
+import * as Builder from './builder';
 import * as PhaseNode from './phasenode';
+import * as Retry from './retry';
 
 export interface Context {
     [key: string]: unknown;
@@ -14,9 +17,67 @@ export interface Instance {
     context: Context;
     phases: Record<string, PhaseNode.Instance>;
     startPhaseId: string;
+    retry?: Retry.Policy; // Optional: default retry policy for every node, overridden per node
+    maxIterations?: number; // Optional: iteration cap for the nodes on a cycle that do not set their own
 }
 
 export const isProcess = (obj: any): obj is Instance => {
     return obj !== undefined && obj !== null && typeof obj === 'object' && typeof obj.name === 'string' && typeof obj.context === 'object' && typeof obj.phases === 'object' && typeof obj.startPhaseId === 'string';
 }
 
+
+type PhaseMap = Record<string, Phase.Instance<any, any>>;
+
+type ConnectionTo<O, I, T extends string> = {
+    target: T; // Key of the target phase in the definition
+    condition?: (output: O, context: Context) => boolean;
+    isDefault?: boolean;
+} & ([O] extends [I]
+    ? { transform?: (output: O) => I }
+    // The output does not fit the target input, so a transform is required
+    : { transform: (output: O) => I });
+
+// A connection from the phase S to any phase of the definition, checked against the target's input type
+export type TypedConnection<Phases extends PhaseMap, S extends keyof Phases> = {
+    [T in keyof Phases & string]: ConnectionTo<Phase.OutputOf<Phases[S]>, Phase.InputOf<Phases[T]>, T>;
+}[keyof Phases & string];
+
+// Node settings that do not depend on the phase types
+export type NodeOptions = Pick<PhaseNode.Instance, 'isEndPhase' | 'join' | 'routing' | 'retry' | 'priority' | 'fanOutConcurrency' | 'maxIterations' | 'cache'>;
+
+// A process declared with typed phases. Every connection must deliver what its target
+// phase accepts, so mismatched edges fail to compile.
+export interface Definition<Phases extends PhaseMap> {
+    name: string;
+    context?: Context; // Defaults to an empty context
+    phases: Phases; // Keys are used as node ids
+    startPhaseId: keyof Phases & string;
+    next?: { [S in keyof Phases]?: TypedConnection<Phases, S>[] };
+    nodes?: { [S in keyof Phases]?: NodeOptions };
+    retry?: Retry.Policy;
+    maxIterations?: number;
+}
+
+export const define = <Phases extends PhaseMap>(definition: Definition<Phases>): Instance => {
+    const phases: Record<string, PhaseNode.Instance> = {};
+    for (const [id, phase] of Object.entries(definition.phases)) {
+        const connections: TypedConnection<Phases, string>[] = definition.next?.[id] ?? [];
+        phases[id] = {
+            ...definition.nodes?.[id],
+            id,
+            phase,
+            next: connections.map(({ target, ...connection }) => ({ targetPhaseNodeId: target, ...connection })),
+        };
+    }
+    return {
+        name: definition.name,
+        context: definition.context ?? {},
+        phases,
+        startPhaseId: definition.startPhaseId,
+        ...(definition.retry !== undefined ? { retry: definition.retry } : {}),
+        ...(definition.maxIterations !== undefined ? { maxIterations: definition.maxIterations } : {}),
+    };
+}
+
+// Starts a fluent definition, e.g. builder('Orders').start(load).then(save).end().build()
+export const builder = (name: string, options?: Builder.Options): Builder.Instance => Builder.create(name, options);
@@ -0,0 +1,139 @@
+// How the delay between attempts grows: 'fixed' waits delayMs every time,
+// 'exponential' doubles it after every failed attempt.
+export type Backoff = 'fixed' | 'exponential';
+
+export interface Policy {
+    maxAttempts?: number; // Total attempts including the first one, defaults to 1
+    backoff?: Backoff; // Defaults to 'fixed'
+    delayMs?: number; // Base delay between attempts, defaults to 0
+    maxDelayMs?: number; // Optional: upper bound for the delay between attempts
+    jitter?: boolean; // Optional: pick a random delay between 0 and the computed delay
+    timeoutMs?: number; // Optional: time limit for a single attempt
+    deadlineMs?: number; // Optional: time limit for all attempts together
+    // Optional: decides whether a failed attempt may be retried. All errors are retryable by default.
+    retryable?: (error: any, attempt: number) => boolean;
+}
+
+export interface Attempt {
+    attempt: number; // 1-based attempt number
+    startedAt: Date;
+    endedAt: Date;
+    error?: any; // Set when the attempt failed
+}
+
+const BACKOFFS: Backoff[] = ['fixed', 'exponential'];
+
+export const isPolicy = (obj: any): obj is Policy => {
+    return obj !== undefined && obj !== null && typeof obj === 'object';
+}
+
+export function validatePolicy(policy: any, owner: string): string[] {
+    const errors: string[] = [];
+    if (!isPolicy(policy)) {
+        errors.push(`${owner} has an invalid retry policy (should be an object).`);
+        return errors;
+    }
+    if (policy.maxAttempts !== undefined && (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1)) {
+        errors.push(`${owner} has an invalid retry maxAttempts (should be an integer of at least 1).`);
+    }
+    if (policy.backoff !== undefined && !BACKOFFS.includes(policy.backoff)) {
+        errors.push(`${owner} has an invalid retry backoff (should be one of ${BACKOFFS.join(', ')}).`);
+    }
+    for (const key of ['delayMs', 'maxDelayMs', 'timeoutMs', 'deadlineMs'] as const) {
+        if (policy[key] !== undefined && (typeof policy[key] !== 'number' || !(policy[key]! >= 0))) {
+            errors.push(`${owner} has an invalid retry ${key} (should be a non-negative number).`);
+        }
+    }
+    if (policy.retryable !== undefined && typeof policy.retryable !== 'function') {
+        errors.push(`${owner} has an invalid retry retryable (should be a function).`);
+    }
+    return errors;
+}
+
+// Delay to wait after the given failed attempt before starting the next one
+export function getDelay(policy: Policy, attempt: number, random: () => number = Math.random): number {
+    const base = policy.delayMs ?? 0;
+    let delay = policy.backoff === 'exponential' ? base * Math.pow(2, attempt - 1) : base;
+    if (policy.maxDelayMs !== undefined) {
+        delay = Math.min(delay, policy.maxDelayMs);
+    }
+    if (policy.jitter) {
+        delay = Math.floor(random() * delay);
+    }
+    return delay;
+}
+
+// Runs fn with a signal of its own, which is aborted when the time limit passes or the
+// outer signal is aborted, so that the work of an abandoned attempt can stop too
+async function withLimits<T>(
+    fn: (signal: AbortSignal | undefined) => Promise<T>,
+    timeoutMs: number | undefined,
+    message: string,
+    signal: AbortSignal | undefined
+): Promise<T> {
+    if (timeoutMs === undefined && !signal) {
+        return fn(undefined);
+    }
+    const controller = new AbortController();
+    const limit = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason));
+    });
+    const onAbort = () => controller.abort(signal!.reason);
+    const timer = timeoutMs !== undefined ? setTimeout(() => controller.abort(new Error(message)), timeoutMs) : undefined;
+    if (signal?.aborted) {
+        onAbort();
+    } else {
+        signal?.addEventListener('abort', onAbort);
+    }
+    try {
+        return await Promise.race([fn(controller.signal), limit]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+function sleep(delayMs: number, signal: AbortSignal | undefined): Promise<void> {
+    return withLimits(() => new Promise<void>(resolve => setTimeout(resolve, delayMs)), undefined, '', signal);
+}
+
+// Runs fn until it succeeds or the policy gives up, reporting every attempt to onAttempt.
+// The error of the last attempt is thrown when no attempt succeeded. Once the signal
+// is aborted the current attempt is abandoned and no further attempts are made.
+// With a signal or a time limit, every attempt gets a signal that is aborted when the
+// attempt is abandoned, with the timeout error or the reason of the outer signal.
+export async function execute<T>(
+    fn: (attempt: number, signal?: AbortSignal) => Promise<T>,
+    policy: Policy,
+    onAttempt: (attempt: Attempt) => void = () => { },
+    signal?: AbortSignal
+): Promise<T> {
+    const maxAttempts = policy.maxAttempts ?? 1;
+    const deadline = policy.deadlineMs !== undefined ? Date.now() + policy.deadlineMs : undefined;
+
+    for (let attempt = 1; ; attempt++) {
+        signal?.throwIfAborted();
+        const startedAt = new Date();
+        let timeoutMs = policy.timeoutMs;
+        let message = `Attempt ${attempt} timed out after ${timeoutMs}ms.`;
+        if (deadline !== undefined && (timeoutMs === undefined || deadline - startedAt.getTime() < timeoutMs)) {
+            timeoutMs = Math.max(deadline - startedAt.getTime(), 0);
+            message = `Attempt ${attempt} exceeded the retry deadline of ${policy.deadlineMs}ms.`;
+        }
+        try {
+            const result = await withLimits(attemptSignal => fn(attempt, attemptSignal), timeoutMs, message, signal);
+            onAttempt({ attempt, startedAt, endedAt: new Date() });
+            return result;
+        } catch (error) {
+            onAttempt({ attempt, startedAt, endedAt: new Date(), error });
+            if (signal?.aborted || attempt >= maxAttempts || (policy.retryable && !policy.retryable(error, attempt))) {
+                throw error;
+            }
+            const delay = getDelay(policy, attempt);
+            if (deadline !== undefined && Date.now() + delay >= deadline) {
+                throw error;
+            }
+            await sleep(delay, signal);
+        }
+    }
+}
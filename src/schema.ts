@@ -0,0 +1,182 @@
+// A problem found in a value, e.g. { path: 'order.lines[0].sku', message: 'should be a string' }.
+// The path is empty for the value itself.
+export interface Issue {
+    path: string;
+    message: string;
+}
+
+// Checks values against a contract. Any library can be plugged in by implementing validate.
+export interface Validator {
+    validate: (value: unknown) => Issue[]; // Empty when the value is valid
+}
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// The subset of JSON Schema understood by the built-in validator
+export interface JsonSchema {
+    type?: JsonType | JsonType[];
+    enum?: unknown[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean; // Only false has an effect
+    items?: JsonSchema;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+}
+
+// A validator created from a JSON schema, which validateProcess can compare across connections
+export interface JsonValidator extends Validator {
+    schema: JsonSchema;
+}
+
+// Thrown by the execution engine when a value does not match the schema of a phase
+export interface ValidationError extends Error {
+    issues: Issue[];
+}
+
+export const isValidator = (obj: any): obj is Validator => {
+    return obj !== undefined && obj !== null && typeof obj === 'object' && typeof obj.validate === 'function';
+}
+
+export const isJsonValidator = (obj: any): obj is JsonValidator => {
+    return isValidator(obj) && (obj as JsonValidator).schema !== null && typeof (obj as JsonValidator).schema === 'object';
+}
+
+export const isValidationError = (error: any): error is ValidationError => {
+    return error instanceof Error && Array.isArray((error as ValidationError).issues);
+}
+
+const child = (path: string, key: string | number): string => {
+    return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+const typesOf = (schema: JsonSchema): JsonType[] | undefined => {
+    return schema.type === undefined ? undefined : Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function typeOf(value: unknown): JsonType {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    return typeof value as JsonType;
+}
+
+// Integers are numbers too
+const fits = (actual: JsonType, expected: JsonType[]): boolean => {
+    return expected.includes(actual) || (actual === 'integer' && expected.includes('number'));
+}
+
+function check(schema: JsonSchema, value: unknown, path: string, issues: Issue[]): void {
+    const types = typesOf(schema);
+    const actual = typeOf(value);
+    if (types && !fits(actual, types)) {
+        issues.push({ path, message: `should be ${types.map(type => `a${/^[aeiou]/.test(type) ? 'n' : ''} ${type}`).join(' or ')}` });
+        return;
+    }
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+        issues.push({ path, message: `should be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+    }
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            issues.push({ path, message: `should be at least ${schema.minimum}` });
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            issues.push({ path, message: `should be at most ${schema.maximum}` });
+        }
+    }
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            issues.push({ path, message: `should have at least ${schema.minLength} characters` });
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            issues.push({ path, message: `should have at most ${schema.maxLength} characters` });
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            issues.push({ path, message: `should match ${schema.pattern}` });
+        }
+    }
+    if (actual === 'array' && schema.items) {
+        (value as unknown[]).forEach((item, index) => check(schema.items!, item, child(path, index), issues));
+    }
+    if (actual === 'object') {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required ?? []) {
+            if (record[key] === undefined) {
+                issues.push({ path: child(path, key), message: 'is required' });
+            }
+        }
+        for (const [key, propertyValue] of Object.entries(record)) {
+            if (schema.properties?.[key]) {
+                check(schema.properties[key], propertyValue, child(path, key), issues);
+            } else if (schema.additionalProperties === false) {
+                issues.push({ path: child(path, key), message: 'is not allowed' });
+            }
+        }
+    }
+}
+
+// Creates a validator for the subset of JSON Schema described by JsonSchema
+export const create = (schema: JsonSchema): JsonValidator => ({
+    schema,
+    validate: (value) => {
+        const issues: Issue[] = [];
+        check(schema, value, '', issues);
+        return issues;
+    },
+});
+
+// Issues of a value that matches source when it is passed where target is expected. Only what
+// both schemas declare is compared, so a schema that says less is assumed to fit: a source
+// without a type fits any type, and one without required keys fits any required keys.
+export function compare(source: JsonSchema, target: JsonSchema, path: string = ''): Issue[] {
+    const issues: Issue[] = [];
+    const sourceTypes = typesOf(source);
+    const targetTypes = typesOf(target);
+    if (sourceTypes && targetTypes && sourceTypes.some(type => !fits(type, targetTypes))) {
+        issues.push({ path, message: `is ${sourceTypes.join(' or ')} but should be ${targetTypes.join(' or ')}` });
+        return issues;
+    }
+    if (source.enum && target.enum) {
+        const missing = source.enum.filter(option => !target.enum!.some(allowed => JSON.stringify(allowed) === JSON.stringify(option)));
+        if (missing.length > 0) {
+            issues.push({ path, message: `can be ${missing.map(option => JSON.stringify(option)).join(', ')} which is not allowed` });
+        }
+    }
+    if (source.required) {
+        for (const key of target.required ?? []) {
+            if (!source.required.includes(key)) {
+                issues.push({ path: child(path, key), message: 'is required but not guaranteed' });
+            }
+        }
+    }
+    for (const [key, property] of Object.entries(target.properties ?? {})) {
+        if (source.properties?.[key]) {
+            issues.push(...compare(source.properties[key], property, child(path, key)));
+        }
+    }
+    if (source.items && target.items) {
+        issues.push(...compare(source.items, target.items, `${path}[]`));
+    }
+    return issues;
+}
+
+export const formatIssues = (issues: Issue[]): string => {
+    return issues.map(issue => `${issue.path || 'value'} ${issue.message}`).join('; ');
+}
+
+// Throws a ValidationError listing the issues when the value does not pass the validator
+export function assertValid(validator: Validator | undefined, value: unknown, message: string): void {
+    const issues = validator ? validator.validate(value) : [];
+    if (issues.length > 0) {
+        throw Object.assign(new Error(`${message}: ${formatIssues(issues)}.`), { issues });
+    }
+}
@@ -0,0 +1,89 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import * as Phase from './phase';
+import * as Execution from './execution';
+
+export interface NodeState {
+    status: Execution.NodeStatus;
+    output?: Phase.Output; // Set when the node succeeded
+    updatedAt: string; // ISO timestamp of the last change
+}
+
+export interface RunState {
+    runId: string;
+    processName: string;
+    nodes: Record<string, NodeState>;
+}
+
+// Persists the progress of process executions so that a run can be resumed.
+// Outputs have to survive a JSON round trip for the filesystem store.
+export interface Instance {
+    load: (runId: string) => Promise<RunState | undefined>;
+    // Starts a new run, replacing any state saved under the same run id
+    start: (runId: string, processName: string) => Promise<void>;
+    saveNode: (runId: string, nodeId: string, state: NodeState) => Promise<void>;
+}
+
+const missingRun = (runId: string) => new Error(`No saved state for run "${runId}".`);
+
+// Keeps the state in memory, useful for tests and for resuming within one process
+export const createMemoryStateStore = (): Instance => {
+    const runs = new Map<string, RunState>();
+    return {
+        load: async (runId) => runs.has(runId) ? structuredClone(runs.get(runId)) : undefined,
+        start: async (runId, processName) => {
+            runs.set(runId, { runId, processName, nodes: {} });
+        },
+        saveNode: async (runId, nodeId, state) => {
+            const run = runs.get(runId);
+            if (!run) {
+                throw missingRun(runId);
+            }
+            run.nodes[nodeId] = structuredClone(state);
+        },
+    };
+}
+
+// Writes one JSON file per run to the directory, which is created when needed
+export const createFileStateStore = (directory: string): Instance => {
+    const pathOf = (runId: string) => join(directory, `${encodeURIComponent(runId)}.json`);
+    // Writes go through a queue so that concurrent node updates do not overwrite each other
+    let queue: Promise<unknown> = Promise.resolve();
+    const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+        const result = queue.then(operation);
+        queue = result.catch(() => { });
+        return result;
+    }
+
+    const load = async (runId: string): Promise<RunState | undefined> => {
+        try {
+            return JSON.parse(await readFile(pathOf(runId), 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    // Written to a temporary file first so that a crash never leaves a partial file behind
+    const save = async (run: RunState): Promise<void> => {
+        await mkdir(directory, { recursive: true });
+        const path = pathOf(run.runId);
+        await writeFile(`${path}.tmp`, JSON.stringify(run, null, 2));
+        await rename(`${path}.tmp`, path);
+    }
+
+    return {
+        load: (runId) => enqueue(() => load(runId)),
+        start: (runId, processName) => enqueue(() => save({ runId, processName, nodes: {} })),
+        saveNode: (runId, nodeId, state) => enqueue(async () => {
+            const run = await load(runId);
+            if (!run) {
+                throw missingRun(runId);
+            }
+            run.nodes[nodeId] = state;
+            await save(run);
+        }),
+    };
+}
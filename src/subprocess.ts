@@ -0,0 +1,99 @@
+import * as Phase from './phase';
+import * as Process from './process';
+import * as Execution from './execution';
+import * as Events from './events';
+import * as Logger from './logger';
+
+export interface Options {
+    name?: string; // Name of the phase, defaults to the name of the process
+    // Turns the results of the sub-process end phases into the output of the phase. By default
+    // the output of the only end phase is used, or the results keyed by node id when there are several.
+    output?: (results: Execution.ExecutionResults, report: Execution.ExecutionReport) => Phase.Output;
+    concurrency?: number; // Optional: concurrency of the sub-process execution
+}
+
+// Thrown when the sub-process did not succeed. Node ids in errors are namespaced
+// with the node the sub-process ran for, e.g. "enrich/lookup".
+export interface Failure extends Error {
+    errors: Execution.ExecutionError[];
+}
+
+// Events that describe nodes of the sub-process and are passed on to the parent emitter
+const FORWARDED_EVENTS: Events.EventName[] = [
+    'node:start', 'node:success', 'node:error', 'node:restored', 'node:skipped', 'transform:error', 'condition:error',
+];
+
+export const isFailure = (error: any): error is Failure => {
+    return error instanceof Error && Array.isArray((error as Failure).errors);
+}
+
+const namespaced = (namespace: string, nodeId: string): string => `${namespace}/${nodeId}`;
+
+function forwardEvents(parent: Events.Emitter, namespace: string, logger: Logger.Instance): Events.Emitter {
+    const child = Events.createEmitter(logger);
+    for (const name of FORWARDED_EVENTS) {
+        child.on(name, (event: any) => {
+            parent.emit(name, {
+                ...event,
+                ...(event.nodeId !== undefined ? { nodeId: namespaced(namespace, event.nodeId) } : {}),
+                ...(event.sourceNodeId !== undefined ? { sourceNodeId: namespaced(namespace, event.sourceNodeId) } : {}),
+                ...(event.sourceNodeIds !== undefined ? { sourceNodeIds: event.sourceNodeIds.map((id: string) => namespaced(namespace, id)) } : {}),
+                ...(event.targetNodeId !== undefined ? { targetNodeId: namespaced(namespace, event.targetNodeId) } : {}),
+            });
+        });
+    }
+    return child;
+}
+
+function forwardLogs(parent: Logger.Instance, namespace: string): Logger.Instance {
+    const write = (level: keyof Logger.Instance) => (message: string, fields?: Logger.Fields) => {
+        parent[level](message, {
+            ...fields,
+            nodeId: fields?.nodeId !== undefined ? namespaced(namespace, fields.nodeId) : namespace,
+        });
+    };
+    return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+// Errors of nested sub-processes are flattened so that each one names the node that failed
+function namespaceErrors(namespace: string, errors: Execution.ExecutionError[]): Execution.ExecutionError[] {
+    return errors.flatMap(error => isFailure(error.error)
+        ? namespaceErrors(namespace, error.error.errors)
+        : [{ ...error, nodeId: namespaced(namespace, error.nodeId) }]);
+}
+
+const defaultOutput = (results: Execution.ExecutionResults): Phase.Output => {
+    const outputs = Object.values(results);
+    return outputs.length === 1 ? outputs[0] : results;
+}
+
+// Wraps a process as a phase. The phase input is passed to the start node of the process,
+// which runs with the context of the parent process merged over its own and stops when
+// the parent execution is cancelled. Its events and logs reach the parent with namespaced node ids.
+export const create = <I = Phase.Input, O = Phase.Output>(process: Process.Instance, options: Options = {}): Phase.Instance<I, O> => ({
+    name: options.name ?? process.name,
+    execute: async (input: I, context?: Phase.Context): Promise<O> => {
+        const namespace = context?.nodeId ?? process.name;
+        const logger = context ? forwardLogs(context.logger, namespace) : undefined;
+        const report = await Execution.executeProcess(
+            { ...process, context: { ...process.context, ...context?.processContext } },
+            input as Phase.Input,
+            {
+                runId: context ? `${context.runId}/${namespace}` : undefined,
+                signal: context?.signal,
+                concurrency: options.concurrency,
+                events: context?.events ? forwardEvents(context.events, namespace, context.logger) : undefined,
+                logger,
+            }
+        );
+        if (report.cancelled) {
+            context!.signal!.throwIfAborted();
+        }
+        if (!report.success) {
+            const errors = namespaceErrors(namespace, report.errors);
+            const details = errors.map(({ nodeId, error }) => `${nodeId}: ${error instanceof Error ? error.message : error}`);
+            throw Object.assign(new Error(`Sub-process "${process.name}" failed (${details.join('; ')}).`), { errors });
+        }
+        return (options.output ?? defaultOutput)(report.results, report) as O;
+    },
+});
@@ -0,0 +1,219 @@
+import * as Phase from './phase';
+import * as Process from './process';
+import * as Events from './events';
+import * as Execution from './execution';
+
+// A call of a mock phase, in the order of the calls
+export interface Call {
+    input: Phase.Input;
+    context?: Phase.Context;
+}
+
+export interface MockPhase<O = Phase.Output> extends Phase.Instance<Phase.Input, O> {
+    calls: Call[];
+}
+
+// One execution of a node in a recorded run
+export interface RecordedStep {
+    nodeId: string;
+    sourceNodeIds: string[]; // The nodes whose connections led to this one, empty for the start phase
+    input: Phase.Input;
+    output?: Phase.Output; // Set when the node succeeded
+    error?: string; // The error message when the node failed
+}
+
+// A run that can be saved as a JSON fixture, as long as the inputs and outputs are JSON
+export interface Recording {
+    processName: string;
+    input: Phase.Input;
+    steps: RecordedStep[]; // In the order the nodes started
+}
+
+export interface Recorder {
+    recording: () => Recording;
+    stop: () => void; // Stops listening to the emitter
+}
+
+// Result of recordProcess and replayProcess
+export interface RecordedRun {
+    report: Execution.ExecutionReport;
+    recording: Recording;
+}
+
+export type Edge = [source: string, target: string];
+
+function createMock<O>(name: string, execute: (input: Phase.Input, context?: Phase.Context) => Promise<O>): MockPhase<O> {
+    const calls: Call[] = [];
+    return {
+        name,
+        calls,
+        execute: (input, context) => {
+            calls.push({ input, context });
+            return execute(input, context);
+        },
+    };
+}
+
+// A phase that returns a fixed output, or the output of a function of its input
+export const createMockPhase = <O = Phase.Output>(name: string, output: O | ((input: Phase.Input, context?: Phase.Context) => O | Promise<O>)): MockPhase<O> => {
+    return createMock(name, async (input, context) => typeof output === 'function'
+        ? (output as (input: Phase.Input, context?: Phase.Context) => O | Promise<O>)(input, context)
+        : output);
+}
+
+// A phase that always throws the error, or an Error with the message
+export const createFailingPhase = (name: string, error: Error | string): MockPhase => {
+    return createMock(name, async () => {
+        throw typeof error === 'string' ? new Error(error) : error;
+    });
+}
+
+// A phase that returns its output after the delay, unless the run is cancelled first
+export const createDelayedPhase = <O = Phase.Output>(name: string, delayMs: number, output: O): MockPhase<O> => {
+    return createMock(name, (input, context) => new Promise<O>((resolve, reject) => {
+        const signal = context?.signal;
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(output);
+        }, delayMs);
+        signal?.addEventListener('abort', onAbort);
+    }));
+}
+
+// Records the calls of a real phase and passes them on to it. The spy of a stream phase
+// is a stream phase too, and records the calls of stream as well.
+export const createSpyPhase = <O = Phase.Output>(phase: Phase.Instance<Phase.Input, O>): MockPhase<O> => {
+    const spy: MockPhase<O> = {
+        ...createMock(phase.name, (input, context) => phase.execute(input, context)),
+        inputSchema: phase.inputSchema,
+        outputSchema: phase.outputSchema,
+    };
+    if (Phase.isStreamPhase(phase)) {
+        const stream: Phase.StreamInstance['stream'] = (input, context) => {
+            spy.calls.push({ input, context });
+            return phase.stream(input, context);
+        };
+        return Object.assign(spy, { stream });
+    }
+    return spy;
+}
+
+// Records the run observed through the emitter. Restored nodes and the nodes of
+// sub-processes are not recorded.
+export const createRecorder = (events: Events.Emitter): Recorder => {
+    let processName: string | undefined;
+    let input: Phase.Input = {};
+    const steps: RecordedStep[] = [];
+    // A node does not start again before its previous execution ended
+    const running = new Map<string, RecordedStep>();
+    const end = (event: { processName: string; nodeId: string }, outcome: Pick<RecordedStep, 'output' | 'error'>) => {
+        const step = event.processName === processName ? running.get(event.nodeId) : undefined;
+        if (step) {
+            Object.assign(step, outcome);
+            running.delete(event.nodeId);
+        }
+    };
+    const stops = [
+        events.on('process:start', (event) => {
+            processName = event.processName;
+            input = event.input;
+        }),
+        events.on('node:start', (event) => {
+            // Sub-processes pass the events of their nodes on under their own name
+            if (event.processName === processName) {
+                const step: RecordedStep = { nodeId: event.nodeId, sourceNodeIds: event.sourceNodeIds, input: event.input };
+                steps.push(step);
+                running.set(event.nodeId, step);
+            }
+        }),
+        events.on('node:success', (event) => end(event, { output: event.output })),
+        events.on('node:error', (event) => end(event, { error: event.error instanceof Error ? event.error.message : String(event.error) })),
+    ];
+    return {
+        recording: () => ({ processName: processName ?? '', input, steps: steps.map(step => ({ ...step })) }),
+        stop: () => stops.forEach(stop => stop()),
+    };
+}
+
+// Executes the process like executeProcess and records the run
+export async function recordProcess(
+    process: Process.Instance,
+    initialInput: Phase.Input,
+    options: Execution.ExecutionOptions = {}
+): Promise<RecordedRun> {
+    const events = options.events ?? Events.createEmitter(options.logger);
+    const recorder = createRecorder(events);
+    try {
+        const report = await Execution.executeProcess(process, initialInput, { ...options, events });
+        return { report, recording: recorder.recording() };
+    } finally {
+        recorder.stop();
+    }
+}
+
+// Executes the process with the outputs and errors of the recording instead of its phases:
+// every execution of a node returns the outcome of the next recorded execution of that node.
+// The recorded outcomes are final, so retries and caches are turned off and forEach nodes
+// return the recorded output of the whole node.
+export async function replayProcess(
+    process: Process.Instance,
+    recording: Recording,
+    options: Execution.ExecutionOptions = {}
+): Promise<RecordedRun> {
+    const outcomes = new Map<string, RecordedStep[]>();
+    for (const step of recording.steps) {
+        outcomes.set(step.nodeId, [...(outcomes.get(step.nodeId) ?? []), step]);
+    }
+    const replayed: Process.Instance = {
+        ...process,
+        retry: undefined,
+        phases: Object.fromEntries(Object.entries(process.phases).map(([id, node]) => [id, {
+            ...node,
+            retry: undefined,
+            forEach: undefined,
+            cache: undefined,
+            phase: {
+                name: node.phase.name,
+                execute: async () => {
+                    const step = outcomes.get(id)?.shift();
+                    if (!step) {
+                        throw new Error(`No recorded execution left for node "${id}".`);
+                    }
+                    if (step.error !== undefined) {
+                        throw new Error(step.error);
+                    }
+                    return step.output!;
+                },
+            },
+        }])),
+    };
+    return recordProcess(replayed, recording.input, options);
+}
+
+// The connections the run followed, in the order their targets started
+export const edgesTaken = (recording: Recording): Edge[] => {
+    return recording.steps.flatMap(step => step.sourceNodeIds.map((source): Edge => [source, step.nodeId]));
+}
+
+const quoted = (ids: string[]): string => ids.length > 0 ? ids.map(id => `"${id}"`).join(', ') : 'none';
+
+// Throws unless the nodes started in exactly this order
+export function assertVisitOrder(recording: Recording, expected: string[]): void {
+    const actual = recording.steps.map(step => step.nodeId);
+    if (actual.join('\n') !== expected.join('\n')) {
+        throw new Error(`Expected the nodes ${quoted(expected)} to run in this order, but ${quoted(actual)} ran.`);
+    }
+}
+
+// Throws unless the run followed exactly these connections, in any order
+export function assertEdgesTaken(recording: Recording, expected: Edge[]): void {
+    const format = (edges: Edge[]) => edges.map(([source, target]) => `${source} -> ${target}`).sort();
+    const actual = format(edgesTaken(recording));
+    if (actual.join('\n') !== format(expected).join('\n')) {
+        throw new Error(`Expected the connections ${quoted(format(expected))} to be taken, but ${quoted(actual)} were.`);
+    }
+}
@@ -0,0 +1,83 @@
+import { randomBytes } from 'crypto';
+import * as Metrics from './metrics';
+
+// Identifies a span within a trace, as hex strings of 16 and 8 bytes
+export interface SpanContext {
+    traceId: string;
+    spanId: string;
+}
+
+export type StatusCode = 'UNSET' | 'OK' | 'ERROR';
+
+// A finished span with the fields of an OpenTelemetry span. Attributes and the status are
+// kept plain for exporters and tests; toOtlp converts the span to OTLP JSON.
+export interface Span extends SpanContext {
+    parentSpanId?: string; // Unset for the root span of a trace
+    name: string;
+    kind: 'SPAN_KIND_INTERNAL';
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: Metrics.Attributes;
+    status: { code: StatusCode; message?: string };
+    links: SpanContext[]; // Other spans that led to this one, e.g. the other inputs of a join
+}
+
+// A value of an OTLP attribute. Integers are strings, as 64-bit integers are in OTLP JSON.
+export type OtlpValue = { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+
+export interface OtlpAttribute {
+    key: string;
+    value: OtlpValue;
+}
+
+// A span in OTLP JSON, to be sent to a collector in resourceSpans[].scopeSpans[].spans
+export interface OtlpSpan extends SpanContext {
+    parentSpanId?: string;
+    name: string;
+    kind: 'SPAN_KIND_INTERNAL';
+    startTimeUnixNano: string;
+    endTimeUnixNano: string;
+    attributes: OtlpAttribute[];
+    status: { code: 'STATUS_CODE_UNSET' | 'STATUS_CODE_OK' | 'STATUS_CODE_ERROR'; message?: string };
+    links: SpanContext[];
+}
+
+// Receives every span once it has ended
+export interface Exporter {
+    export: (span: Span) => void;
+}
+
+export interface MemoryExporter extends Exporter {
+    spans: Span[];
+}
+
+export const createTraceId = (): string => randomBytes(16).toString('hex');
+
+export const createSpanId = (): string => randomBytes(8).toString('hex');
+
+export const toUnixNano = (date: Date): string => (BigInt(date.getTime()) * 1000000n).toString();
+
+const toOtlpValue = (value: string | number | boolean): OtlpValue => {
+    if (typeof value === 'string') {
+        return { stringValue: value };
+    }
+    if (typeof value === 'boolean') {
+        return { boolValue: value };
+    }
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+export const toOtlp = (span: Span): OtlpSpan => {
+    const { attributes, status, ...rest } = span;
+    return {
+        ...rest,
+        attributes: Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) })),
+        status: { ...status, code: `STATUS_CODE_${status.code}` },
+    };
+}
+
+// Keeps the spans in the order they ended, useful for tests
+export const createMemoryExporter = (): MemoryExporter => {
+    const spans: Span[] = [];
+    return { spans, export: (span) => spans.push(span) };
+}
@@ -2,5 +2,18 @@ export * as Phase from './phase';
 export * as Process from './process';
 export * as Execution from './execution';
 export * as PhaseNode from './phasenode';
+export * as Retry from './retry';
+export * as Events from './events';
+export * as Logger from './logger';
+export * as Builder from './builder';
+export * as Loader from './loader';
+export * as StateStore from './statestore';
+export * as SubProcess from './subprocess';
+export * as Schema from './schema';
+export * as Diagram from './diagram';
 
-
+export * as Metrics from './metrics';
+export * as Tracing from './tracing';
+export * as Plan from './plan';
+export * as Testing from './testing';
+export * as Cache from './cache';
@@ -0,0 +1,174 @@
+import * as Builder from '../src/builder';
+import * as Phase from '../src/phase';
+import { builder } from '../src/process';
+import { executeProcess } from '../src/execution';
+
+interface Count { value: number }
+interface Message { text: string }
+
+const phase = <I, O>(name: string, fn: (input: I) => O): Phase.Instance<I, O> => ({
+    name,
+    execute: async (input) => fn(input),
+});
+
+const addOne = phase<Count, Count>('AddOne', input => ({ value: input.value + 1 }));
+const double = phase<Count, Count>('Double', input => ({ value: input.value * 2 }));
+const describeCount = phase<Count, Message>('Describe', input => ({ text: `Value ${input.value}` }));
+const shout = phase<Message, Message>('Shout', input => ({ text: input.text.toUpperCase() }));
+const sum = phase<Record<string, Count>, Count>('Sum', inputs => ({ value: Object.values(inputs).reduce((total, input) => total + input.value, 0) }));
+
+describe('builder', () => {
+    it('should generate ids and wire a linear chain', () => {
+        const process = builder('Linear').start(addOne).then(double).then(describeCount).end().build();
+
+        expect(process.name).toBe('Linear');
+        expect(process.context).toEqual({});
+        expect(process.startPhaseId).toBe('AddOne');
+        expect(Object.keys(process.phases)).toEqual(['AddOne', 'Double', 'Describe']);
+        expect(process.phases.AddOne.next).toEqual([{ targetPhaseNodeId: 'Double' }]);
+        expect(process.phases.Double.next).toEqual([{ targetPhaseNodeId: 'Describe' }]);
+        expect(process.phases.Describe).toEqual({ id: 'Describe', phase: describeCount, next: [], isEndPhase: true });
+    });
+
+    it('should suffix the ids of repeated phases', () => {
+        const process = builder('Repeated').start(addOne).then(addOne).then(addOne).end().build();
+        expect(Object.keys(process.phases)).toEqual(['AddOne', 'AddOne-2', 'AddOne-3']);
+    });
+
+    it('should use explicit ids and node options', () => {
+        const process = builder('Explicit', { context: { tenant: 'a' }, retry: { maxAttempts: 2 }, maxIterations: 4 })
+            .start(addOne, { id: 'first', priority: 1 })
+            .then(double, { id: 'second', retry: { maxAttempts: 3 }, routing: 'first' })
+            .end()
+            .build();
+
+        expect(process.context).toEqual({ tenant: 'a' });
+        expect(process.retry).toEqual({ maxAttempts: 2 });
+        expect(process.maxIterations).toBe(4);
+        expect(process.startPhaseId).toBe('first');
+        expect(process.phases.first.priority).toBe(1);
+        expect(process.phases.second.retry).toEqual({ maxAttempts: 3 });
+        expect(process.phases.second.routing).toBe('first');
+    });
+
+    it('should throw for a duplicate explicit id', () => {
+        const chain = builder('Duplicate').start(addOne, { id: 'node' });
+        expect(() => chain.then(double, { id: 'node' })).toThrow('Duplicate node id "node" in process "Duplicate".');
+    });
+
+    it('should throw when the start phase is set twice', () => {
+        const processBuilder = builder('Twice');
+        processBuilder.start(addOne);
+        expect(() => processBuilder.start(double)).toThrow('Process "Twice" already has a start phase.');
+    });
+
+    it('should put transforms, conditions and defaults on the incoming connections', () => {
+        const transform = (output: Count): Message => ({ text: String(output.value) });
+        const condition = (output: Count) => output.value > 10;
+        const process = builder('Connections')
+            .start(addOne)
+            .branch(
+                chain => chain.then(shout, { transform, condition }),
+                chain => chain.then(double, { isDefault: true }),
+            )
+            .build();
+
+        expect(process.phases.AddOne.next).toEqual([
+            { targetPhaseNodeId: 'Shout', transform, condition },
+            { targetPhaseNodeId: 'Double', isDefault: true },
+        ]);
+    });
+
+    it('should join the last nodes of every branch', async () => {
+        const process = builder('Fan-in')
+            .start(addOne)
+            .branch(
+                chain => chain.then(double),
+                chain => chain.then(addOne).then(addOne),
+            )
+            .join(sum)
+            .end()
+            .build();
+
+        expect(process.phases.Sum.join).toEqual({ mode: 'all' });
+        expect(process.phases.Double.next).toEqual([{ targetPhaseNodeId: 'Sum' }]);
+        expect(process.phases['AddOne-3'].next).toEqual([{ targetPhaseNodeId: 'Sum' }]);
+
+        // (1 + 1) * 2 + (1 + 1 + 1 + 1)
+        const { results } = await executeProcess(process, { value: 1 });
+        expect(results).toEqual({ Sum: { value: 8 } });
+    });
+
+    it('should pass the join mode, count and merge', () => {
+        const merge = (inputs: Record<string, Count>): Count => ({ value: Object.keys(inputs).length });
+        const process = builder('Join options')
+            .start(addOne)
+            .branch(chain => chain.then(double), chain => chain.then(addOne))
+            .join(double, { id: 'joined', mode: 'count', count: 1, merge })
+            .end()
+            .build();
+
+        expect(process.phases.joined.join).toEqual({ mode: 'count', count: 1, merge });
+    });
+
+    it('should add forEach nodes with typed items', async () => {
+        const items = (output: Count): Count[] => [output, { value: 10 }];
+        const condition = (output: Count) => output.value > 0;
+        const process = builder('For each')
+            .start(addOne)
+            .forEach(double, { id: 'doubled', items, concurrency: 2, onItemError: 'fail', condition, maxIterations: 1 })
+            .then(phase('Count', (input: { outputs: (Count | undefined)[] }) => ({ value: input.outputs.length })))
+            .end()
+            .build();
+
+        expect(process.phases.doubled).toEqual({ id: 'doubled', phase: double, next: [{ targetPhaseNodeId: 'Count' }], maxIterations: 1, forEach: { items, concurrency: 2, onItemError: 'fail' } });
+        expect(process.phases.AddOne.next).toEqual([{ targetPhaseNodeId: 'doubled', condition }]);
+        expect((await executeProcess(process, { value: 1 })).history.doubled).toEqual([{ outputs: [{ value: 4 }, { value: 20 }], errors: [] }]);
+        // @ts-expect-error the items must be accepted by the phase
+        expect(() => builder('Untyped').start(addOne).forEach(shout, { items: output => [output] })).not.toThrow();
+    });
+
+    it('should end every branch', () => {
+        const process = builder('Ends')
+            .start(addOne)
+            .branch(chain => chain.then(double), chain => chain.then(describeCount))
+            .end()
+            .build();
+
+        expect(process.phases.Double.isEndPhase).toBe(true);
+        expect(process.phases.Describe.isEndPhase).toBe(true);
+        expect(process.phases.AddOne.isEndPhase).toBeUndefined();
+    });
+
+    it('should not change a built process when building continues', () => {
+        const chain = builder('Continued').start(addOne);
+        const first = chain.build();
+        chain.then(double).build();
+
+        expect(first.phases.AddOne.next).toEqual([]);
+        expect(first.phases.Double).toBeUndefined();
+    });
+
+    it('should throw when a branch returns a chain of another builder', () => {
+        const other = builder('Other').start(double);
+        expect(() => builder('Branches').start(addOne).branch(() => other))
+            .toThrow('A branch of process "Branches" did not return a chain of its builder.');
+    });
+
+    it('should throw when the process does not pass validation', () => {
+        const chain = builder('Invalid')
+            .start(addOne)
+            .branch(chain => chain.then(double), chain => chain.then(addOne))
+            .join(sum, { mode: 'count', count: 3 });
+        expect(() => chain.build()).toThrow('Invalid process "Invalid": PhaseNode "Sum" has an invalid join count (should be an integer between 1 and 2).');
+    });
+
+    it('should reject phases that do not accept the previous output at compile time', () => {
+        const chain: Builder.Chain<Count> = builder('Typed').start(addOne);
+        // @ts-expect-error Shout expects a Message
+        expect(() => chain.then(shout)).not.toThrow();
+        expect(() => chain.then(shout, { transform: output => ({ text: String(output.value) }) })).not.toThrow();
+        // @ts-expect-error the transform must produce a Message
+        expect(() => chain.then(shout, { transform: output => ({ value: output.value }) })).not.toThrow();
+    });
+});
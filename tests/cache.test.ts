@@ -0,0 +1,147 @@
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as Phase from '../src/phase';
+import { createFileCache, createMemoryCache, Entry, hashInput, invalidate, isExpired, isStore, keyOf, namespaceOf, Store } from '../src/cache';
+
+const entry = (output: Phase.Output): Entry => ({ output, storedAt: '2025-05-01T10:00:00.000Z' });
+
+describe('Cache', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'zealux-cache-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    const stores: [string, () => Store][] = [
+        ['createMemoryCache', () => createMemoryCache()],
+        ['createFileCache', () => createFileCache(join(directory, 'cache'))],
+    ];
+
+    describe.each(stores)('%s', (_, createStore) => {
+        it('should return undefined for an unknown key', async () => {
+            expect(await createStore().get('unknown')).toBeUndefined();
+        });
+
+        it('should keep entries under their key until they are deleted', async () => {
+            const store = createStore();
+            await store.set('Price:a', entry({ price: 1 }));
+            await store.set('Price:b', entry({ price: 2 }));
+            await store.set('Price:a', entry({ price: 3 }));
+
+            expect(await store.get('Price:a')).toEqual(entry({ price: 3 }));
+            await store.delete('Price:a');
+            await store.delete('Price:missing');
+            expect(await store.get('Price:a')).toBeUndefined();
+            expect(await store.get('Price:b')).toEqual(entry({ price: 2 }));
+            await store.clear();
+            expect(await store.get('Price:b')).toBeUndefined();
+        });
+
+        it('should return copies of the entries', async () => {
+            const store = createStore();
+            const stored = entry({ lines: [1] });
+            await store.set('key', stored);
+            (stored.output.lines as number[]).push(2);
+            const loaded = await store.get('key');
+            (loaded!.output.lines as number[]).push(3);
+
+            expect(await store.get('key')).toEqual(entry({ lines: [1] }));
+        });
+    });
+
+    describe('createMemoryCache', () => {
+        it('should drop the least recently used entry when full', async () => {
+            const store = createMemoryCache(2);
+            await store.set('a', entry({}));
+            await store.set('b', entry({}));
+            await store.get('a');
+            await store.set('c', entry({}));
+
+            expect(await store.get('b')).toBeUndefined();
+            expect(await store.get('a')).toBeDefined();
+            expect(await store.get('c')).toBeDefined();
+        });
+    });
+
+    describe('createFileCache', () => {
+        it('should write one file per key without leaving temporary files behind', async () => {
+            const store = createFileCache(directory);
+            await Promise.all([store.set('a'.repeat(1000), entry({ id: 1 })), store.set('a'.repeat(1000), entry({ id: 2 })), store.set('b', entry({}))]);
+
+            const files = await readdir(directory);
+            expect(files).toHaveLength(2);
+            expect(files.every(file => /^[0-9a-f]{64}\.json$/.test(file))).toBe(true);
+        });
+
+        it('should fail on unreadable entries', async () => {
+            const store = createFileCache(directory);
+            await store.set('key', entry({}));
+            const [file] = await readdir(directory);
+            await writeFile(join(directory, file), '{');
+
+            await expect(store.get('key')).rejects.toThrow(SyntaxError);
+        });
+
+        it('should only clear the files of the store', async () => {
+            const store = createFileCache(directory);
+            await store.set('key', entry({}));
+            const [file] = await readdir(directory);
+            await writeFile(join(directory, `${file}.0b5b2a4e-8f4e-4c55-9a2c-3d1e6f7a8b9c.tmp`), '{');
+            await writeFile(join(directory, 'notes.json'), '{}');
+            await writeFile(join(directory, 'draft.tmp'), '');
+
+            await store.clear();
+
+            expect((await readdir(directory)).sort()).toEqual(['draft.tmp', 'notes.json']);
+            await expect(createFileCache(join(directory, 'missing')).clear()).resolves.toBeUndefined();
+            await expect(createFileCache(join(directory, 'notes.json')).clear()).rejects.toThrow('ENOTDIR');
+        });
+    });
+
+    it('should hash inputs regardless of the order of their keys', () => {
+        expect(hashInput({ a: 1, b: { c: [1, { d: 2, e: null }] } })).toBe(hashInput({ b: { c: [1, { e: null, d: 2 }] }, a: 1 }));
+        expect(hashInput({ a: 1 })).not.toBe(hashInput({ a: 2 }));
+        expect(hashInput({ a: 1 })).toMatch(/^[0-9a-f]{64}$/);
+        expect(hashInput(undefined)).toMatch(/^[0-9a-f]{64}$/);
+        expect(hashInput({ at: new Date(0) })).toBe(hashInput({ at: '1970-01-01T00:00:00.000Z' }));
+        expect(hashInput({ a: Object.assign(Object.create(null), { b: 1 }) })).toBe(hashInput({ a: { b: 1 } }));
+    });
+
+    it('should refuse to hash values that JSON cannot tell apart', () => {
+        expect(() => hashInput({ skus: new Set(['a']) })).toThrow('Cannot hash a Set as JSON, only plain objects, arrays and primitives.');
+        expect(() => hashInput(new Map([['a', 1]]))).toThrow('Cannot hash a Map');
+        expect(() => hashInput({ price: new (class Price { amount = 1; })() })).toThrow('Cannot hash a Price');
+    });
+
+    it('should key entries by namespace, phase name and input', async () => {
+        const phase: Phase.Instance = { name: 'Price', execute: async () => ({}) };
+        const store = createMemoryCache();
+        expect(namespaceOf('Orders', 'price', { store })).toBe('Orders/price');
+        expect(namespaceOf('Orders', 'price', { store, namespace: 'prices' })).toBe('prices');
+        expect(keyOf('Orders/price', phase, { sku: 'a' }, { store })).toBe(`Orders/price:Price:${hashInput({ sku: 'a' })}`);
+        expect(keyOf('Orders/price', phase, { sku: 'a' }, { store, key: (input) => input.sku as string })).toBe('Orders/price:Price:a');
+
+        await store.set('Orders/price:Price:a', entry({}));
+        await invalidate('Orders/price', phase, { sku: 'a' }, { store, key: (input) => input.sku as string });
+        expect(await store.get('Orders/price:Price:a')).toBeUndefined();
+    });
+
+    it('should tell expired entries apart', () => {
+        const now = new Date('2025-05-01T10:00:00.000Z');
+        expect(isExpired(entry({}), now)).toBe(false);
+        expect(isExpired({ ...entry({}), expiresAt: '2025-05-01T10:00:00.001Z' }, now)).toBe(false);
+        expect(isExpired({ ...entry({}), expiresAt: '2025-05-01T10:00:00.000Z' }, now)).toBe(true);
+        expect(isExpired({ ...entry({}), expiresAt: '2000-01-01T00:00:00.000Z' })).toBe(true);
+    });
+
+    it('should recognise stores', () => {
+        expect(isStore(createMemoryCache())).toBe(true);
+        expect(isStore({ get: async () => undefined })).toBe(false);
+        expect(isStore(null)).toBe(false);
+    });
+});
@@ -0,0 +1,287 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { jest } from '@jest/globals';
+import { createProcessIo, describeGraph, loadRegistry, main, USAGE, Io } from '../src/cli';
+import { builder } from '../src/process';
+
+const PHASES = `
+export const Add = (options) => ({
+    name: 'Add',
+    execute: async (input) => ({ value: input.value + (options.amount ?? 1) }),
+});
+export const Double = {
+    name: 'Double',
+    execute: async (input) => ({ value: input.value * 2 }),
+};
+export const Fail = {
+    name: 'Fail',
+    execute: async () => { throw new Error('out of stock'); },
+};
+export const version = '1.0.0';
+`;
+
+const DEFINITION = `name: Arithmetic
+startPhaseId: first
+nodes:
+  first:
+    phase: Add
+    options:
+      amount: 5
+    next:
+      - second
+  second:
+    phase: Double
+    end: true
+`;
+
+const createIo = (stdin: string = '') => {
+    const output = { stdout: '', stderr: '' };
+    const io: Io = {
+        readStdin: async () => stdin,
+        stdout: (text) => { output.stdout += text; },
+        stderr: (text) => { output.stderr += text; },
+    };
+    return { io, output };
+}
+
+describe('cli', () => {
+    let directory: string;
+    let phases: string;
+    let definition: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'zealux-cli-'));
+        phases = join(directory, 'phases.mjs');
+        definition = join(directory, 'process.yaml');
+        await writeFile(phases, PHASES);
+        await writeFile(definition, DEFINITION);
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    describe('loadRegistry', () => {
+        it('should register factories and phase instances', async () => {
+            const registry = await loadRegistry(phases);
+            expect(registry.names()).toEqual(['Add', 'Double', 'Fail']);
+            expect(registry.get('Double')!({}).name).toBe('Double');
+            expect(registry.get('Add')!({ amount: 2 }).name).toBe('Add');
+        });
+    });
+
+    describe('main', () => {
+        it('should print the usage for --help', async () => {
+            const { io, output } = createIo();
+            expect(await main(['--help'], io)).toBe(0);
+            expect(output.stdout).toBe(USAGE);
+        });
+
+        it('should print the usage for an unknown command', async () => {
+            const { io, output } = createIo();
+            expect(await main(['start', definition, '--phases', phases], io)).toBe(2);
+            expect(output.stderr).toBe(USAGE);
+        });
+
+        it('should print the usage when the phases module is missing', async () => {
+            const { io, output } = createIo();
+            expect(await main(['run', definition], io)).toBe(2);
+            expect(output.stderr).toBe(USAGE);
+        });
+
+        it('should report unknown options', async () => {
+            const { io, output } = createIo();
+            expect(await main(['run', definition, '--verbose'], io)).toBe(2);
+            expect(output.stderr).toContain("Unknown option '--verbose'");
+            expect(output.stderr).toContain(USAGE);
+        });
+
+        it('should run the process with input from stdin', async () => {
+            const { io, output } = createIo('{ "value": 1 }');
+            expect(await main(['run', definition, '--phases', phases], io)).toBe(0);
+            expect(JSON.parse(output.stdout)).toEqual({ second: { value: 12 } });
+            expect(output.stderr).toBe('');
+        });
+
+        it('should run the process with input from a file', async () => {
+            const input = join(directory, 'input.json');
+            await writeFile(input, '{ "value": 2 }');
+            const { io, output } = createIo();
+            expect(await main(['run', definition, '-p', phases, '-i', input, '-c', '2'], io)).toBe(0);
+            expect(JSON.parse(output.stdout)).toEqual({ second: { value: 14 } });
+        });
+
+        it('should use an empty input when stdin is empty', async () => {
+            await writeFile(definition, 'name: Constant\nstartPhaseId: only\nnodes:\n  only:\n    phase: Fail\n    end: true\n');
+            const { io, output } = createIo('  \n');
+            expect(await main(['run', definition, '--phases', phases], io)).toBe(1);
+            expect(JSON.parse(output.stdout)).toEqual({});
+            expect(output.stderr).toBe('Phase "only" failed: out of stock\n');
+        });
+
+        it('should report errors that stop the run', async () => {
+            const { io, output } = createIo('not json');
+            expect(await main(['run', definition, '--phases', phases], io)).toBe(1);
+            expect(output.stderr).toMatch(/JSON/);
+        });
+
+        it('should report an invalid concurrency', async () => {
+            const { io, output } = createIo('{}');
+            expect(await main(['run', definition, '--phases', phases, '--concurrency', 'many'], io)).toBe(2);
+            expect(await main(['run', definition, '--phases', phases, '--concurrency', '1.5'], io)).toBe(2);
+            expect(await main(['run', definition, '--phases', phases, '--concurrency', '0'], io)).toBe(2);
+            expect(output.stderr).toBe(`--concurrency should be a positive integer.\n\n${USAGE}`.repeat(3));
+            expect(output.stdout).toBe('');
+        });
+
+        it('should resume a run saved in the state directory', async () => {
+            const state = join(directory, 'state');
+            await writeFile(definition, DEFINITION.replace('phase: Double', 'phase: Fail'));
+            const first = createIo('{ "value": 1 }');
+            expect(await main(['run', definition, '-p', phases, '--run-id', 'nightly', '--state-dir', state], first.io)).toBe(1);
+
+            await writeFile(definition, DEFINITION);
+            const second = createIo('{ "value": 100 }');
+            expect(await main(['run', definition, '-p', phases, '--run-id', 'nightly', '--state-dir', state, '--resume'], second.io)).toBe(0);
+            // The first node is not executed again, so the input of the first run is used
+            expect(JSON.parse(second.output.stdout)).toEqual({ second: { value: 12 } });
+        });
+
+        it('should report a resume without a state directory', async () => {
+            const { io, output } = createIo('{}');
+            expect(await main(['run', definition, '-p', phases, '--run-id', 'nightly', '--resume'], io)).toBe(1);
+            expect(output.stderr).toBe('Invalid execution options: resume requires a runId and a stateStore.\n');
+        });
+
+        it('should validate a valid definition', async () => {
+            const { io, output } = createIo();
+            expect(await main(['validate', definition, '--phases', phases], io)).toBe(0);
+            expect(output.stdout).toBe('Process "Arithmetic" is valid.\n');
+        });
+
+        it('should print warnings and fail on them with --strict', async () => {
+            await writeFile(definition, `${DEFINITION}  third:\n    phase: Double\n    end: true\n`);
+            const first = createIo();
+            expect(await main(['validate', definition, '--phases', phases], first.io)).toBe(0);
+            expect(first.output.stderr).toBe('Warning: Line 13: PhaseNode "third" cannot be reached from the start phase "first".\n');
+
+            const second = createIo();
+            expect(await main(['run', definition, '--phases', phases, '--strict'], second.io)).toBe(1);
+            expect(second.output.stderr).toBe('Line 13: PhaseNode "third" cannot be reached from the start phase "first".\n');
+            expect(second.output.stdout).toBe('');
+        });
+
+        it('should print the errors of an invalid definition', async () => {
+            await writeFile(definition, DEFINITION.replace('phase: Double', 'phase: Triple'));
+            const { io, output } = createIo();
+            expect(await main(['validate', definition, '--phases', phases], io)).toBe(1);
+            expect(output.stderr).toBe('Line 10: Node "second" uses unknown phase "Triple" (registered phases: Add, Double, Fail).\n');
+        });
+
+        it('should report a missing definition file', async () => {
+            const { io, output } = createIo();
+            expect(await main(['validate', join(directory, 'missing.yaml'), '--phases', phases], io)).toBe(1);
+            expect(output.stderr).toContain('ENOENT');
+        });
+
+        it('should print the graph as Mermaid or DOT', async () => {
+            const mermaid = createIo();
+            expect(await main(['graph', definition, '--phases', phases, '--format', 'mermaid'], mermaid.io)).toBe(0);
+            expect(mermaid.output.stdout).toBe('flowchart TD\n    n0(["first [Add]"])\n    n1[["second [Double]"]]\n    n0 --> n1\n');
+
+            const dot = createIo();
+            expect(await main(['graph', definition, '--phases', phases, '--format', 'dot'], dot.io)).toBe(0);
+            expect(dot.output.stdout).toContain('    "first" -> "second";\n');
+        });
+
+        it('should reject an unknown graph format', async () => {
+            const { io, output } = createIo();
+            expect(await main(['graph', definition, '--phases', phases, '--format', 'svg'], io)).toBe(2);
+            expect(output.stderr).toBe(USAGE);
+        });
+
+        it('should print the graph', async () => {
+            const { io, output } = createIo();
+            expect(await main(['graph', definition, '--phases', phases], io)).toBe(0);
+            expect(output.stdout).toBe('Process "Arithmetic"\nfirst [Add] (start)\n  -> second\nsecond [Double] (end)\n');
+        });
+    });
+
+    describe('createProcessIo', () => {
+        const stdin = Object.getOwnPropertyDescriptor(process, 'stdin')!;
+
+        afterEach(() => {
+            Object.defineProperty(process, 'stdin', stdin);
+            jest.restoreAllMocks();
+        });
+
+        it('should read stdin until it ends', async () => {
+            Object.defineProperty(process, 'stdin', { configurable: true, value: Readable.from(['{ "value"', ': 1 }']) });
+            expect(await createProcessIo().readStdin()).toBe('{ "value": 1 }');
+        });
+
+        it('should not wait for input from a terminal', async () => {
+            Object.defineProperty(process, 'stdin', { configurable: true, value: { isTTY: true } });
+            expect(await createProcessIo().readStdin()).toBe('');
+        });
+
+        it('should write to stdout and stderr', () => {
+            const stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+            const io = createProcessIo();
+            io.stdout('out');
+            io.stderr('err');
+            expect(stdout).toHaveBeenCalledWith('out');
+            expect(stderr).toHaveBeenCalledWith('err');
+        });
+    });
+
+    describe('describeGraph', () => {
+        it('should list joins and connection details', () => {
+            const phase = (name: string) => ({ name, execute: async () => ({}) });
+            const process = builder('Graph')
+                .start(phase('Load'))
+                .branch(
+                    chain => chain.then(phase('Check'), { condition: () => true, transform: (output) => output }),
+                    chain => chain.then(phase('Fallback'), { isDefault: true }),
+                )
+                .join(phase('Merge'), { mode: 'count', count: 1, maxIterations: 2 })
+                .end()
+                .build();
+
+            expect(describeGraph(process)).toBe([
+                'Process "Graph"',
+                'Load [Load] (start)',
+                '  -> Check (condition, transform)',
+                '  -> Fallback (default)',
+                'Check [Check]',
+                '  -> Merge',
+                'Fallback [Fallback]',
+                '  -> Merge',
+                'Merge [Merge] (end, join: count 1, max iterations: 2)',
+                '',
+            ].join('\n'));
+        });
+
+        it('should list forEach nodes', () => {
+            const process = builder('Items')
+                .start({ name: 'Load', execute: async () => ({ items: [] as object[] }) })
+                .forEach({ name: 'Price', execute: async () => ({}) }, { items: output => output.items, concurrency: 4 })
+                .forEach({ name: 'Tag', execute: async () => ({}) }, { items: output => output.outputs })
+                .end()
+                .build();
+
+            expect(describeGraph(process)).toBe([
+                'Process "Items"',
+                'Load [Load] (start)',
+                '  -> Price',
+                'Price [Price] (for each: concurrency 4)',
+                '  -> Tag',
+                'Tag [Tag] (end, for each)',
+                '',
+            ].join('\n'));
+        });
+    });
+});
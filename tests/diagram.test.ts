@@ -0,0 +1,104 @@
+import * as Phase from '../src/phase';
+import { executeProcess } from '../src/execution';
+import { Instance as ProcessInstance } from '../src/process';
+import { toDot, toMermaid } from '../src/diagram';
+import { createMemoryCache } from '../src/cache';
+
+const phase = (name: string, execute: Phase.Instance['execute'] = async () => ({})): Phase.Instance => ({ name, execute });
+
+describe('Diagram', () => {
+    let orderProcess: ProcessInstance;
+
+    beforeEach(() => {
+        // load -> check (transform) -> approve (condition) | "manual review" (default)
+        orderProcess = {
+            name: 'Orders "EU"',
+            context: {},
+            startPhaseId: 'load',
+            phases: {
+                load: { id: 'load', phase: phase('LoadOrder'), next: [{ targetPhaseNodeId: 'check', transform: (output) => output }] },
+                check: {
+                    id: 'check',
+                    phase: phase('Check'),
+                    next: [
+                        { targetPhaseNodeId: 'approve', condition: () => false },
+                        { targetPhaseNodeId: 'manual review', isDefault: true },
+                    ],
+                },
+                approve: { id: 'approve', phase: phase('Approve'), next: [], isEndPhase: true },
+                'manual review': { id: 'manual review', phase: phase('Review', async () => { throw new Error('No reviewer'); }), next: [], isEndPhase: true },
+            },
+        };
+    });
+
+    describe('toMermaid', () => {
+        it('should draw the nodes and connections', () => {
+            expect(toMermaid(orderProcess)).toBe([
+                'flowchart TD',
+                '    n0(["load [LoadOrder]"])',
+                '    n1["check [Check]"]',
+                '    n2[["approve [Approve]"]]',
+                '    n3[["manual review [Review]"]]',
+                '    n0 -->|"transform"| n1',
+                '    n1 -->|"condition"| n2',
+                '    n1 -->|"default"| n3',
+                '',
+            ].join('\n'));
+        });
+
+        it('should escape quotes in labels', () => {
+            orderProcess.phases.load.phase = phase('Load "orders"');
+            expect(toMermaid(orderProcess)).toContain('n0(["load [Load #quot;orders#quot;]"])');
+        });
+
+        it('should color the nodes by status and add durations from a report', async () => {
+            const report = await executeProcess(orderProcess, {});
+            report.timings.load = report.timings.load.map(timing => ({ ...timing, durationMs: 12 }));
+
+            const diagram = toMermaid(orderProcess, { report });
+
+            expect(diagram).toContain('n0(["load [LoadOrder]<br/>succeeded, 12 ms"])');
+            expect(diagram).toMatch(/n3\[\["manual review \[Review\]<br\/>failed, \d+ ms"\]\]/);
+            expect(diagram).toContain('    classDef succeeded fill:#d4edda,stroke:#28a745\n    class n0,n1 succeeded');
+            expect(diagram).toContain('    class n2 skipped');
+            expect(diagram).toContain('    class n3 failed');
+            expect(diagram).not.toContain('classDef cancelled');
+        });
+        it('should add durations for nodes whose output came from their cache', async () => {
+            orderProcess.phases.load.cache = { store: createMemoryCache() };
+            await executeProcess(orderProcess, {});
+            const report = await executeProcess(orderProcess, {});
+
+            expect(report.cacheHits).toEqual(['load']);
+            expect(toMermaid(orderProcess, { report })).toMatch(/n0\(\["load \[LoadOrder\]<br\/>succeeded, \d+ ms"\]\)/);
+        });
+    });
+
+    describe('toDot', () => {
+        it('should draw the nodes and connections', () => {
+            expect(toDot(orderProcess)).toBe([
+                'digraph "Orders \\"EU\\"" {',
+                '    node [shape=box, style=rounded];',
+                '    "load" [label="load [LoadOrder]", style="rounded,bold"];',
+                '    "check" [label="check [Check]"];',
+                '    "approve" [label="approve [Approve]", peripheries=2];',
+                '    "manual review" [label="manual review [Review]", peripheries=2];',
+                '    "load" -> "check" [label="transform"];',
+                '    "check" -> "approve" [label="condition"];',
+                '    "check" -> "manual review" [label="default"];',
+                '}',
+                '',
+            ].join('\n'));
+        });
+
+        it('should fill the nodes by status and add the run to the labels', async () => {
+            orderProcess.phases.load.phase = phase('Load\\Orders');
+            const report = await executeProcess(orderProcess, {});
+
+            const diagram = toDot(orderProcess, { report });
+
+            expect(diagram).toMatch(/"load" \[label="load \[Load\\\\Orders\]\\nsucceeded, \d+ ms", fillcolor="#d4edda", color="#28a745", style="rounded,bold,filled"\];/);
+            expect(diagram).toContain('"approve" [label="approve [Approve]\\nskipped", peripheries=2, fillcolor="#e2e3e5", color="#6c757d", style="rounded,filled"];');
+        });
+    });
+});
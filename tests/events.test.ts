@@ -0,0 +1,61 @@
+import { jest } from '@jest/globals';
+import { createEmitter, NodeSkippedEvent } from '../src/events';
+
+describe('Events', () => {
+    describe('createEmitter', () => {
+        const skipped: NodeSkippedEvent = { processName: 'Test Process', nodeId: 'node1' };
+
+        it('should call every listener registered for an event', () => {
+            const emitter = createEmitter();
+            const first = jest.fn();
+            const second = jest.fn();
+            const other = jest.fn();
+            emitter.on('node:skipped', first);
+            emitter.on('node:skipped', second);
+            emitter.on('node:start', other);
+
+            emitter.emit('node:skipped', skipped);
+
+            expect(first).toHaveBeenCalledWith(skipped);
+            expect(second).toHaveBeenCalledWith(skipped);
+            expect(other).not.toHaveBeenCalled();
+        });
+
+        it('should ignore listener errors without a logger', () => {
+            const emitter = createEmitter();
+            emitter.on('node:skipped', () => { throw new Error('Listener failed'); });
+            expect(() => emitter.emit('node:skipped', skipped)).not.toThrow();
+        });
+
+        it('should do nothing when an event has no listeners', () => {
+            const emitter = createEmitter();
+            expect(() => emitter.emit('node:skipped', skipped)).not.toThrow();
+        });
+
+        it('should stop calling a listener once it is removed', () => {
+            const emitter = createEmitter();
+            const listener = jest.fn();
+            const off = emitter.on('node:skipped', listener);
+
+            off();
+            off(); // Removing twice is harmless
+            emitter.emit('node:skipped', skipped);
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('should keep calling listeners after one of them throws', () => {
+            const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+            const emitter = createEmitter(logger);
+            const listenerError = new Error('Listener failed');
+            const listener = jest.fn();
+            emitter.on('node:skipped', () => { throw listenerError; });
+            emitter.on('node:skipped', listener);
+
+            emitter.emit('node:skipped', skipped);
+
+            expect(listener).toHaveBeenCalledWith(skipped);
+            expect(logger.error).toHaveBeenCalledWith('Error in listener for event node:skipped', { processName: 'Test Process', error: listenerError });
+        });
+    });
+});
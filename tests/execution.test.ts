@@ -1,8 +1,15 @@
 import { jest } from '@jest/globals';
-import { validateProcess, executeProcess, ExecutionResults } from '../src/execution';
-import { Instance as ProcessInstance, Context } from '../src/process';
+import { diagnoseProcess, validateProcess, executeProcess, topologicalOrder, ExecutionResults } from '../src/execution';
+import { Instance as ProcessInstance, Context, define } from '../src/process';
 import * as PhaseNode from '../src/phasenode';
 import * as Phase from '../src/phase'; import { Output } from 'phase';
+import * as Events from '../src/events';
+import * as Logger from '../src/logger';
+import * as StateStore from '../src/statestore';
+import * as Schema from '../src/schema';
+import * as Metrics from '../src/metrics';
+import * as Tracing from '../src/tracing';
+import * as Cache from '../src/cache';
 
 
 // Define more specific Input/Output for tests if desired, though base interfaces are {}
@@ -32,6 +39,13 @@ const mockPhase: Phase.Instance = {
 
 const mockContext: Context = {};
 
+const createMockLogger = (): jest.Mocked<Logger.Instance> => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+});
+
 describe('validateProcess', () => {
     let baseProcess: ProcessInstance;
 
@@ -177,6 +191,45 @@ describe('validateProcess', () => {
         };
         expect(validateProcess(invalidProcess)).toContain('PhaseNode "start" has a connection to "end" with an invalid transform (should be a function).');
     });
+
+    test('should return error for connection with invalid condition', () => {
+        baseProcess.phases.start.next = [{ targetPhaseNodeId: 'end', condition: 'not-a-function' as any }];
+        expect(validateProcess(baseProcess)).toContain('PhaseNode "start" has a connection to "end" with an invalid condition (should be a function).');
+    });
+
+    test('should return error for more than one default connection', () => {
+        baseProcess.phases.start.next = [{ targetPhaseNodeId: 'end', isDefault: true }, { targetPhaseNodeId: 'end', isDefault: true }];
+        expect(validateProcess(baseProcess)).toContain('PhaseNode "start" has more than one default connection.');
+    });
+
+    test('should return error for invalid routing', () => {
+        baseProcess.phases.start.routing = 'random' as any;
+        expect(validateProcess(baseProcess)).toContain('PhaseNode "start" has an invalid routing (should be one of all, first).');
+    });
+
+    test('should accept a valid join definition', () => {
+        baseProcess.phases.end.join = { mode: 'count', count: 1, merge: (inputs) => inputs };
+        expect(validateProcess(baseProcess)).toEqual([]);
+    });
+
+    test('should return error for join with an invalid mode', () => {
+        baseProcess.phases.end.join = { mode: 'some' as any };
+        expect(validateProcess(baseProcess)).toContain('PhaseNode "end" has an invalid join (mode should be one of all, any, count).');
+        baseProcess.phases.end.join = null as any;
+        expect(validateProcess(baseProcess)).toContain('PhaseNode "end" has an invalid join (mode should be one of all, any, count).');
+    });
+
+    test('should return error for join count outside the number of predecessors', () => {
+        baseProcess.phases.end.join = { mode: 'count', count: 2 };
+        expect(validateProcess(baseProcess)).toContain('PhaseNode "end" has an invalid join count (should be an integer between 1 and 1).');
+        baseProcess.phases.end.join = { mode: 'count' };
+        expect(validateProcess(baseProcess)).toContain('PhaseNode "end" has an invalid join count (should be an integer between 1 and 1).');
+    });
+
+    test('should return error for join with an invalid merge', () => {
+        baseProcess.phases.end.join = { mode: 'all', merge: 'not-a-function' as any };
+        expect(validateProcess(baseProcess)).toContain('PhaseNode "end" has an invalid join merge (should be a function).');
+    });
 });
 
 // Placeholder for executeProcess tests
@@ -210,16 +263,64 @@ describe('executeProcess', () => {
 
     test('should execute a simple linear process and return end phase results', async () => {
         const initialInput: TestInput = { data: 'start' };
-        const results = await executeProcess(baseProcess, initialInput);
+        const { results } = await executeProcess(baseProcess, initialInput);
 
-        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput);
-        expect(mockPhase2Execute).toHaveBeenCalledWith({ data: 'phase1 processed start' });
-        expect(mockPhase3Execute).toHaveBeenCalledWith({ data: 'phase2 processed phase1 processed start' });
+        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput, expect.any(Object));
+        expect(mockPhase2Execute).toHaveBeenCalledWith({ data: 'phase1 processed start' }, expect.any(Object));
+        expect(mockPhase3Execute).toHaveBeenCalledWith({ data: 'phase2 processed phase1 processed start' }, expect.any(Object));
         expect(results).toEqual({
             p3: { data: 'phase3 processed phase2 processed phase1 processed start' },
         });
     });
 
+    test('should return a report describing a successful run', async () => {
+        const report = await executeProcess(baseProcess, { data: 'start' });
+
+        expect(report.processName).toBe('Test Execution Process');
+        expect(report.success).toBe(true);
+        expect(report.errors).toEqual([]);
+        expect(report.nodeStatuses).toEqual({ p1: 'succeeded', p2: 'succeeded', p3: 'succeeded' });
+        expect(report.startedAt).toBeInstanceOf(Date);
+        expect(report.endedAt.getTime()).toBeGreaterThanOrEqual(report.startedAt.getTime());
+    });
+
+    test('should wait for slow downstream phases before resolving', async () => {
+        mockPhase3Execute.mockImplementation(async (input: TestInput) => {
+            await new Promise(resolve => setTimeout(resolve, 50));
+            return { data: `slow ${input.data}` };
+        });
+
+        const report = await executeProcess(baseProcess, { data: 'start' });
+
+        expect(report.results).toEqual({ p3: { data: 'slow phase2 processed phase1 processed start' } });
+        expect(report.nodeStatuses.p3).toBe('succeeded');
+    });
+
+    test('should report failed and skipped nodes when a phase throws', async () => {
+        const phaseError = new Error('Phase failed');
+        mockPhase2Execute.mockRejectedValue(phaseError);
+
+        const report = await executeProcess(baseProcess, { data: 'start' });
+
+        expect(report.success).toBe(false);
+        expect(report.errors).toEqual([{ nodeId: 'p2', error: phaseError, attempt: 1 }]);
+        expect(report.nodeStatuses).toEqual({ p1: 'succeeded', p2: 'failed', p3: 'skipped' });
+        expect(report.results).toEqual({});
+        expect(mockPhase3Execute).not.toHaveBeenCalled();
+    });
+
+    test('should report a failed start phase', async () => {
+        const phaseError = new Error('Start failed');
+        mockPhase1Execute.mockRejectedValue(phaseError);
+        const logger = createMockLogger();
+
+        const report = await executeProcess(baseProcess, { data: 'start' }, { logger });
+
+        expect(report.success).toBe(false);
+        expect(report.nodeStatuses).toEqual({ p1: 'failed', p2: 'skipped', p3: 'skipped' });
+        expect(logger.error).toHaveBeenCalledWith('Error executing phase p1', { processName: 'Test Execution Process', nodeId: 'p1', error: phaseError });
+    });
+
     test('should throw error for invalid process definition', async () => {
         const invalidProcess = { ...baseProcess, startPhaseId: 'nonexistent' } as ProcessInstance;
         const initialInput: TestInput = { data: 'start' };
@@ -234,10 +335,10 @@ describe('executeProcess', () => {
         const initialInput: TestInput = { data: 'start' };
         await executeProcess(baseProcess, initialInput);
 
-        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput);
+        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput, expect.any(Object));
         expect(transformFn).toHaveBeenCalledWith({ data: 'phase1 processed start' });
-        expect(mockPhase2Execute).toHaveBeenCalledWith({ data: 'transformed phase1 processed start' });
-        expect(mockPhase3Execute).toHaveBeenCalledWith({ data: 'phase2 processed transformed phase1 processed start' });
+        expect(mockPhase2Execute).toHaveBeenCalledWith({ data: 'transformed phase1 processed start' }, expect.any(Object));
+        expect(mockPhase3Execute).toHaveBeenCalledWith({ data: 'phase2 processed transformed phase1 processed start' }, expect.any(Object));
     });
 
     test('should handle error in transform function', async () => {
@@ -245,27 +346,31 @@ describe('executeProcess', () => {
         const transformFn = jest.fn((output: TestOutput): TestInput => { throw transformError; });
 
         baseProcess.phases.p1.next = [{ targetPhaseNodeId: 'p2', transform: transformFn }];
-
-        const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => { });
-        const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => { });
+        const logger = createMockLogger();
 
         const initialInput: TestInput = { data: 'start' };
-        const results = await executeProcess(baseProcess, initialInput);
+        const report = await executeProcess(baseProcess, initialInput, { logger });
 
-        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput);
+        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput, expect.any(Object));
         expect(transformFn).toHaveBeenCalledWith({ data: 'phase1 processed start' });
         expect(mockPhase2Execute).not.toHaveBeenCalled(); // p2 should not execute
         expect(mockPhase3Execute).not.toHaveBeenCalled(); // p3 should not execute
 
-        expect(results).toEqual({}); // No end phase results due to transform error preventing p2 & p3
+        expect(report.results).toEqual({}); // No end phase results due to transform error preventing p2 & p3
+        expect(report.success).toBe(false);
+        expect(report.nodeStatuses).toEqual({ p1: 'succeeded', p2: 'failed', p3: 'skipped' });
 
-        expect(consoleErrorSpy).toHaveBeenCalledWith('Error in transform for connection p1 -> p2:', transformError);
-        expect(consoleWarnSpy).toHaveBeenCalledWith("Process execution completed with errors:", expect.arrayContaining([
-            expect.objectContaining({ nodeId: 'p2', error: transformError })
-        ]));
-
-        consoleErrorSpy.mockRestore();
-        consoleWarnSpy.mockRestore();
+        expect(logger.error).toHaveBeenCalledWith('Error in transform for connection p1 -> p2', {
+            processName: 'Test Execution Process',
+            nodeId: 'p2',
+            error: transformError,
+        });
+        expect(logger.warn).toHaveBeenCalledWith("Process execution completed with errors.", {
+            processName: 'Test Execution Process',
+            errors: expect.arrayContaining([
+                expect.objectContaining({ nodeId: 'p2', error: transformError })
+            ]),
+        });
     });
 
 
@@ -284,12 +389,12 @@ describe('executeProcess', () => {
 
 
         const initialInput: TestInput = { data: 'branch' };
-        const results = await executeProcess(baseProcess, initialInput);
+        const { results } = await executeProcess(baseProcess, initialInput);
 
-        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput);
+        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput, expect.any(Object));
         // p1 output: { data: 'phase1 processed branch' }
-        expect(mockPhase2Execute).toHaveBeenCalledWith({ data: 'phase1 processed branch' });
-        expect(mockPhase4Execute).toHaveBeenCalledWith({ data: 'phase1 processed branch' });
+        expect(mockPhase2Execute).toHaveBeenCalledWith({ data: 'phase1 processed branch' }, expect.any(Object));
+        expect(mockPhase4Execute).toHaveBeenCalledWith({ data: 'phase1 processed branch' }, expect.any(Object));
         expect(mockPhase3Execute).not.toHaveBeenCalled(); // p3 is not reachable or not an end phase
 
         expect(results).toEqual({
@@ -318,11 +423,11 @@ describe('executeProcess', () => {
         };
 
         const initialInput: TestInput = { data: 'implicit' };
-        const results = await executeProcess(processNoEndPhases, initialInput);
+        const { results } = await executeProcess(processNoEndPhases, initialInput);
 
-        expect(mockP1).toHaveBeenCalledWith(initialInput);
-        expect(mockP2).toHaveBeenCalledWith({ data: 'p1 out implicit' });
-        expect(mockP3).toHaveBeenCalledWith({ data: 'p1 out implicit' });
+        expect(mockP1).toHaveBeenCalledWith(initialInput, expect.any(Object));
+        expect(mockP2).toHaveBeenCalledWith({ data: 'p1 out implicit' }, expect.any(Object));
+        expect(mockP3).toHaveBeenCalledWith({ data: 'p1 out implicit' }, expect.any(Object));
 
         expect(results).toEqual({
             n_p2: { data: 'p2 out p1 out implicit' },
@@ -336,21 +441,23 @@ describe('executeProcess', () => {
             { targetPhaseNodeId: 'p1' }, // cycle back
             { targetPhaseNodeId: 'p3' }  // path to end
         ];
+        // A cap of 1 marks the cycle as intended without ever re-entering p1
+        baseProcess.phases.p1.maxIterations = 1;
 
         const initialInput: TestInput = { data: 'cycle test' };
-        const results = await executeProcess(baseProcess, initialInput);
+        const { results } = await executeProcess(baseProcess, initialInput);
 
         // p1 executes once with initial input
         expect(mockPhase1Execute).toHaveBeenCalledTimes(1);
-        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput);
+        expect(mockPhase1Execute).toHaveBeenCalledWith(initialInput, expect.any(Object));
 
         // p2 executes once with output from p1
         expect(mockPhase2Execute).toHaveBeenCalledTimes(1);
-        expect(mockPhase2Execute).toHaveBeenCalledWith({ data: 'phase1 processed cycle test' });
+        expect(mockPhase2Execute).toHaveBeenCalledWith({ data: 'phase1 processed cycle test' }, expect.any(Object));
 
         // p3 executes once with output from p2
         expect(mockPhase3Execute).toHaveBeenCalledTimes(1);
-        expect(mockPhase3Execute).toHaveBeenCalledWith({ data: 'phase2 processed phase1 processed cycle test' });
+        expect(mockPhase3Execute).toHaveBeenCalledWith({ data: 'phase2 processed phase1 processed cycle test' }, expect.any(Object));
 
         expect(results).toEqual({
             p3: { data: 'phase3 processed phase2 processed phase1 processed cycle test' },
@@ -374,10 +481,10 @@ describe('executeProcess', () => {
                 u_p3: { id: 'u_p3', phase: { name: 'uP3', execute: mockP3 }, next: [], isEndPhase: true } as PhaseNode.Instance, // Unreachable
             }
         };
-        const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation(() => { });
+        const logger = createMockLogger();
         const initialInput: TestInput = { data: 'unreachable' };
 
-        const results = await executeProcess(processWithUnreachableEnd, initialInput);
+        const { results } = await executeProcess(processWithUnreachableEnd, initialInput, { logger });
 
         expect(mockP1).toHaveBeenCalled();
         expect(mockP2).toHaveBeenCalled();
@@ -385,7 +492,2039 @@ describe('executeProcess', () => {
         expect(results).toEqual({
             u_p2: { data: 'p2 out p1 out unreachable' }
         });
-        expect(consoleWarnSpy).toHaveBeenCalledWith('End phase "u_p3" did not execute or produce a result.');
-        consoleWarnSpy.mockRestore();
+        expect(logger.warn).toHaveBeenCalledWith('End phase "u_p3" did not execute or produce a result.', { processName: 'Unreachable End', nodeId: 'u_p3' });
+    });
+});
+
+describe('executeProcess with join nodes', () => {
+    let diamondProcess: ProcessInstance;
+    let mockJoinExecute: jest.MockedFunction<(input: Phase.Input) => Promise<Phase.Output>>;
+
+    beforeEach(() => {
+        const passThrough = (label: string): Phase.Instance => ({
+            name: label,
+            execute: jest.fn(async (input: TestInput): Promise<TestOutput> => ({ data: `${label}(${input.data})` })),
+        });
+        mockJoinExecute = jest.fn(async (input: Phase.Input): Promise<Phase.Output> => ({ merged: input }));
+
+        // a -> b -> d, a -> c -> d (diamond)
+        diamondProcess = {
+            name: 'Diamond Process',
+            context: mockContext,
+            startPhaseId: 'a',
+            phases: {
+                a: { id: 'a', phase: passThrough('a'), next: [{ targetPhaseNodeId: 'b' }, { targetPhaseNodeId: 'c' }] },
+                b: { id: 'b', phase: passThrough('b'), next: [{ targetPhaseNodeId: 'd' }] },
+                c: { id: 'c', phase: passThrough('c'), next: [{ targetPhaseNodeId: 'd' }] },
+                d: { id: 'd', phase: { name: 'join', execute: mockJoinExecute }, next: [], isEndPhase: true, join: { mode: 'all' } },
+            },
+        };
+    });
+
+    test('should wait for all predecessors and pass inputs keyed by source node id', async () => {
+        const { results } = await executeProcess(diamondProcess, { data: 'x' });
+
+        expect(mockJoinExecute).toHaveBeenCalledTimes(1);
+        expect(mockJoinExecute).toHaveBeenCalledWith({
+            b: { data: 'b(a(x))' },
+            c: { data: 'c(a(x))' },
+        }, expect.any(Object));
+        expect(results).toEqual({
+            d: { merged: { b: { data: 'b(a(x))' }, c: { data: 'c(a(x))' } } },
+        });
+    });
+
+    test('should use the merge function when provided', async () => {
+        const merge = jest.fn((inputs: Record<string, Phase.Input>): Phase.Input => ({
+            data: Object.keys(inputs).sort().map(id => (inputs[id] as TestInput).data).join('+'),
+        }));
+        diamondProcess.phases.d.join = { mode: 'all', merge };
+
+        await executeProcess(diamondProcess, { data: 'x' });
+
+        expect(merge).toHaveBeenCalledTimes(1);
+        expect(mockJoinExecute).toHaveBeenCalledWith({ data: 'b(a(x))+c(a(x))' }, expect.any(Object));
+    });
+
+    test('should run on the first arrival when mode is any', async () => {
+        diamondProcess.phases.d.join = { mode: 'any' };
+
+        await executeProcess(diamondProcess, { data: 'x' });
+
+        expect(mockJoinExecute).toHaveBeenCalledTimes(1);
+        expect(mockJoinExecute).toHaveBeenCalledWith({ b: { data: 'b(a(x))' } }, expect.any(Object));
+    });
+
+    test('should wait for the configured number of predecessors when mode is count', async () => {
+        diamondProcess.phases.a.next.push({ targetPhaseNodeId: 'e' });
+        diamondProcess.phases.e = {
+            id: 'e',
+            phase: { name: 'e', execute: async () => ({ data: 'e' }) },
+            next: [{ targetPhaseNodeId: 'd' }],
+        };
+        diamondProcess.phases.d.join = { mode: 'count', count: 2 };
+
+        await executeProcess(diamondProcess, { data: 'x' });
+
+        expect(mockJoinExecute).toHaveBeenCalledTimes(1);
+        expect(Object.keys(mockJoinExecute.mock.calls[0][0])).toHaveLength(2);
+    });
+
+    test('should use the initial input when the start node is a join', async () => {
+        diamondProcess.phases.a.join = { mode: 'all' };
+
+        await executeProcess(diamondProcess, { data: 'x' });
+
+        expect(mockJoinExecute).toHaveBeenCalledWith({
+            b: { data: 'b(a(x))' },
+            c: { data: 'c(a(x))' },
+        }, expect.any(Object));
+    });
+});
+
+describe('executeProcess with conditional routing', () => {
+    let routedProcess: ProcessInstance;
+    let executed: string[];
+
+    const recordingPhase = (label: string): Phase.Instance => ({
+        name: label,
+        execute: async (input: Phase.Input): Promise<Phase.Output> => {
+            executed.push(label);
+            return { ...input, path: [...((input.path as string[]) ?? []), label] };
+        },
+    });
+
+    beforeEach(() => {
+        executed = [];
+        // router -> small | large | other (default), each -> done
+        routedProcess = {
+            name: 'Routed Process',
+            context: { threshold: 10 },
+            startPhaseId: 'router',
+            phases: {
+                router: {
+                    id: 'router',
+                    phase: recordingPhase('router'),
+                    next: [
+                        { targetPhaseNodeId: 'small', condition: (output, context) => (output.value as number) < (context.threshold as number) },
+                        { targetPhaseNodeId: 'large', condition: (output, context) => (output.value as number) >= (context.threshold as number) },
+                        { targetPhaseNodeId: 'other', isDefault: true },
+                    ],
+                },
+                small: { id: 'small', phase: recordingPhase('small'), next: [{ targetPhaseNodeId: 'smallEnd' }] },
+                smallEnd: { id: 'smallEnd', phase: recordingPhase('smallEnd'), next: [], isEndPhase: true },
+                large: { id: 'large', phase: recordingPhase('large'), next: [], isEndPhase: true },
+                other: { id: 'other', phase: recordingPhase('other'), next: [], isEndPhase: true },
+            },
+        };
+    });
+
+    test('should only fire connections whose condition passes and skip the rest', async () => {
+        const logger = createMockLogger();
+
+        const report = await executeProcess(routedProcess, { value: 3 }, { logger });
+
+        expect(executed).toEqual(['router', 'small', 'smallEnd']);
+        expect(report.success).toBe(true);
+        expect(report.nodeStatuses).toEqual({
+            router: 'succeeded',
+            small: 'succeeded',
+            smallEnd: 'succeeded',
+            large: 'skipped',
+            other: 'skipped',
+        });
+        expect(report.results).toEqual({ smallEnd: { value: 3, path: ['router', 'small', 'smallEnd'] } });
+        expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    test('should propagate skipped status downstream', async () => {
+        // A loop connection that does not fire does not change the status of the node it leads back to
+        routedProcess.phases.router.maxIterations = 2;
+        routedProcess.phases.large.next = [{ targetPhaseNodeId: 'router', condition: () => false }];
+
+        const report = await executeProcess(routedProcess, { value: 30 });
+
+        expect(executed).toEqual(['router', 'large']);
+        expect(report.nodeStatuses.small).toBe('skipped');
+        expect(report.nodeStatuses.smallEnd).toBe('skipped');
+    });
+
+    test('should fire the default connection when no condition passes', async () => {
+        const report = await executeProcess(routedProcess, { value: 'not a number' });
+
+        expect(executed).toEqual(['router', 'other']);
+        expect(report.results).toEqual({ other: { value: 'not a number', path: ['router', 'other'] } });
+    });
+
+    test('should only fire the first matching connection when routing is first', async () => {
+        routedProcess.phases.router.routing = 'first';
+        routedProcess.phases.router.next[1].condition = () => true;
+
+        const report = await executeProcess(routedProcess, { value: 3 });
+
+        expect(executed).toEqual(['router', 'small', 'smallEnd']);
+        expect(report.nodeStatuses.large).toBe('skipped');
+        expect(report.nodeStatuses.other).toBe('skipped');
+    });
+
+    test('should record an error when a condition throws', async () => {
+        const conditionError = new Error('Condition failed');
+        routedProcess.phases.router.next[0].condition = () => { throw conditionError; };
+        const logger = createMockLogger();
+
+        const report = await executeProcess(routedProcess, { value: 3 }, { logger });
+
+        expect(report.success).toBe(false);
+        expect(report.errors).toEqual([{ nodeId: 'small', error: conditionError }]);
+        expect(report.nodeStatuses.small).toBe('failed');
+        expect(report.nodeStatuses.other).toBe('succeeded');
+        expect(logger.error).toHaveBeenCalledWith('Error in condition for connection router -> small', {
+            processName: 'Routed Process',
+            nodeId: 'small',
+            error: conditionError,
+        });
+    });
+
+    test('should run a join with the inputs of the predecessors that were not skipped', async () => {
+        // router -> small -> merge, router -> large -> merge
+        routedProcess.phases.small.next = [{ targetPhaseNodeId: 'merge' }];
+        routedProcess.phases.large.next = [{ targetPhaseNodeId: 'merge' }];
+        routedProcess.phases.large.isEndPhase = false;
+        routedProcess.phases.router.next.pop();
+        delete routedProcess.phases.other;
+        delete routedProcess.phases.smallEnd;
+        routedProcess.phases.merge = { id: 'merge', phase: recordingPhase('merge'), next: [], isEndPhase: true, join: { mode: 'all' } };
+
+        const report = await executeProcess(routedProcess, { value: 3 });
+
+        expect(executed).toEqual(['router', 'small', 'merge']);
+        expect(report.nodeStatuses.large).toBe('skipped');
+        expect(report.results.merge).toEqual({ small: { value: 3, path: ['router', 'small'] }, path: ['merge'] });
+    });
+
+    test('should run a join once a skipped predecessor makes it ready', async () => {
+        // router -> slow -> merge, router -> large -> merge; slow delivers before large is skipped
+        routedProcess.phases.router.next = [
+            { targetPhaseNodeId: 'small' },
+            { targetPhaseNodeId: 'large', condition: () => false },
+        ];
+        routedProcess.phases.router.routing = 'all';
+        routedProcess.phases.small.next = [{ targetPhaseNodeId: 'merge' }];
+        routedProcess.phases.large.next = [{ targetPhaseNodeId: 'merge' }];
+        routedProcess.phases.large.isEndPhase = false;
+        delete routedProcess.phases.other;
+        delete routedProcess.phases.smallEnd;
+        routedProcess.phases.merge = { id: 'merge', phase: recordingPhase('merge'), next: [], isEndPhase: true, join: { mode: 'count', count: 2 } };
+        routedProcess.phases.router.next.push({ targetPhaseNodeId: 'small2' });
+        routedProcess.phases.small2 = { id: 'small2', phase: recordingPhase('small2'), next: [{ targetPhaseNodeId: 'skipper' }] };
+        routedProcess.phases.skipper = {
+            id: 'skipper',
+            phase: recordingPhase('skipper'),
+            next: [{ targetPhaseNodeId: 'merge', condition: () => false }],
+        };
+
+        const report = await executeProcess(routedProcess, { value: 3 });
+
+        expect(report.nodeStatuses.merge).toBe('succeeded');
+        expect(Object.keys(report.results.merge)).toEqual(['small', 'path']);
+    });
+
+    test('should leave a join pending when it is still waiting for a predecessor', async () => {
+        routedProcess.phases.router.next = [
+            { targetPhaseNodeId: 'small' },
+            { targetPhaseNodeId: 'large' },
+        ];
+        routedProcess.phases.small.next = [{ targetPhaseNodeId: 'merge', condition: () => false }];
+        routedProcess.phases.large.next = [{ targetPhaseNodeId: 'merge' }];
+        routedProcess.phases.large.isEndPhase = false;
+        routedProcess.phases.large.phase.execute = async () => { throw new Error('large failed'); };
+        routedProcess.phases.other.next = [{ targetPhaseNodeId: 'merge' }];
+        delete routedProcess.phases.smallEnd;
+        routedProcess.phases.merge = { id: 'merge', phase: recordingPhase('merge'), next: [], isEndPhase: true, join: { mode: 'all' } };
+        routedProcess.phases.other.isEndPhase = false;
+        const logger = createMockLogger();
+
+        const report = await executeProcess(routedProcess, { value: 3 }, { logger });
+
+        expect(report.nodeStatuses.merge).toBe('skipped');
+        expect(logger.warn).toHaveBeenCalledWith('End phase "merge" did not execute or produce a result.', { processName: 'Routed Process', nodeId: 'merge' });
+    });
+});
+
+describe('executeProcess with retry policies', () => {
+    let retryProcess: ProcessInstance;
+    let flakyExecute: jest.MockedFunction<(input: Phase.Input) => Promise<Phase.Output>>;
+    const transientError = new Error('Transient failure');
+
+    beforeEach(() => {
+        flakyExecute = jest.fn(async (input: Phase.Input): Promise<Phase.Output> => ({ ...input, flaky: true }));
+        flakyExecute.mockRejectedValueOnce(transientError);
+        retryProcess = {
+            name: 'Retry Process',
+            context: mockContext,
+            startPhaseId: 'flaky',
+            phases: {
+                flaky: { id: 'flaky', phase: { name: 'Flaky', execute: flakyExecute }, next: [], isEndPhase: true },
+            },
+        };
+    });
+
+    test('should retry a failing phase using the node policy and record every attempt', async () => {
+        retryProcess.phases.flaky.retry = { maxAttempts: 2 };
+
+        const report = await executeProcess(retryProcess, { data: 'x' });
+
+        expect(flakyExecute).toHaveBeenCalledTimes(2);
+        expect(report.success).toBe(true);
+        expect(report.results).toEqual({ flaky: { data: 'x', flaky: true } });
+        expect(report.attempts).toEqual([
+            { nodeId: 'flaky', attempt: 1, startedAt: expect.any(Date), endedAt: expect.any(Date), error: transientError },
+            { nodeId: 'flaky', attempt: 2, startedAt: expect.any(Date), endedAt: expect.any(Date) },
+        ]);
+    });
+
+    test('should abort the signal of an attempt that timed out before the next one starts', async () => {
+        retryProcess.phases.flaky.retry = { maxAttempts: 2, timeoutMs: 20 };
+        const signals: AbortSignal[] = [];
+        let running = 0;
+        let overlapped = false;
+        retryProcess.phases.flaky.phase.execute = (input, context) => new Promise((resolve, reject) => {
+            signals.push(context!.signal!);
+            overlapped ||= running > 0;
+            running++;
+            const timer = setTimeout(() => {
+                running--;
+                resolve(input);
+            }, signals.length === 1 ? 1000 : 0);
+            context!.signal!.addEventListener('abort', () => {
+                clearTimeout(timer);
+                running--;
+                reject(context!.signal!.reason);
+            });
+        });
+
+        const report = await executeProcess(retryProcess, { data: 'x' });
+
+        expect(report.success).toBe(true);
+        expect(signals[0].reason.message).toBe('Attempt 1 timed out after 20ms.');
+        expect(overlapped).toBe(false);
+    });
+
+    test('should fall back to the process retry policy', async () => {
+        retryProcess.retry = { maxAttempts: 2 };
+
+        const report = await executeProcess(retryProcess, { data: 'x' });
+
+        expect(flakyExecute).toHaveBeenCalledTimes(2);
+        expect(report.success).toBe(true);
+    });
+
+    test('should let the node policy override the process policy', async () => {
+        retryProcess.retry = { maxAttempts: 3 };
+        retryProcess.phases.flaky.retry = { maxAttempts: 1 };
+
+        const report = await executeProcess(retryProcess, { data: 'x' });
+
+        expect(flakyExecute).toHaveBeenCalledTimes(1);
+        expect(report.success).toBe(false);
+        expect(report.errors).toEqual([{ nodeId: 'flaky', error: transientError, attempt: 1 }]);
+    });
+
+    test('should record an error from a join merge without an attempt', async () => {
+        const mergeError = new Error('Merge failed');
+        retryProcess.phases.start = {
+            id: 'start',
+            phase: { name: 'Start', execute: async (input) => input },
+            next: [{ targetPhaseNodeId: 'flaky' }],
+        };
+        retryProcess.startPhaseId = 'start';
+        retryProcess.phases.flaky.join = { mode: 'all', merge: () => { throw mergeError; } };
+
+        const report = await executeProcess(retryProcess, { data: 'x' });
+
+        expect(report.errors).toEqual([{ nodeId: 'flaky', error: mergeError }]);
+        expect(flakyExecute).not.toHaveBeenCalled();
+    });
+
+    test('should return errors for invalid process and node retry policies', () => {
+        retryProcess.retry = { maxAttempts: 0 };
+        retryProcess.phases.flaky.retry = { backoff: 'linear' as any };
+
+        expect(validateProcess(retryProcess)).toEqual([
+            'Process has an invalid retry maxAttempts (should be an integer of at least 1).',
+            'PhaseNode "flaky" has an invalid retry backoff (should be one of fixed, exponential).',
+        ]);
+    });
+});
+
+describe('executeProcess with cancellation', () => {
+    let cancelProcess: ProcessInstance;
+    let controller: AbortController;
+    let slowExecute: jest.MockedFunction<(input: Phase.Input, context?: Phase.Context) => Promise<Phase.Output>>;
+    let endExecute: jest.MockedFunction<(input: Phase.Input) => Promise<Phase.Output>>;
+
+    beforeEach(() => {
+        controller = new AbortController();
+        // Resolves after a second unless the signal passed to it is aborted
+        slowExecute = jest.fn((input: Phase.Input, context?: Phase.Context) => new Promise<Phase.Output>((resolve, reject) => {
+            const timer = setTimeout(() => resolve(input), 1000);
+            context?.signal?.addEventListener('abort', () => {
+                clearTimeout(timer);
+                reject(context.signal!.reason);
+            });
+        }));
+        endExecute = jest.fn(async (input: Phase.Input): Promise<Phase.Output> => input);
+        cancelProcess = {
+            name: 'Cancel Process',
+            context: mockContext,
+            startPhaseId: 'first',
+            phases: {
+                first: { id: 'first', phase: { name: 'First', execute: async (input) => input }, next: [{ targetPhaseNodeId: 'slow' }] },
+                slow: { id: 'slow', phase: { name: 'Slow', execute: slowExecute }, next: [{ targetPhaseNodeId: 'end' }] },
+                end: { id: 'end', phase: { name: 'End', execute: endExecute }, next: [], isEndPhase: true },
+            },
+        };
+    });
+
+    test('should pass the signal to each phase', async () => {
+        slowExecute.mockImplementation(async (input) => input);
+
+        const report = await executeProcess(cancelProcess, { data: 'x' }, { signal: controller.signal });
+
+        expect(slowExecute).toHaveBeenCalledWith({ data: 'x' }, expect.objectContaining({ signal: controller.signal }));
+        expect(report.cancelled).toBe(false);
+        expect(report.success).toBe(true);
+    });
+
+    test('should cancel running and unfinished nodes when the signal is aborted', async () => {
+        setTimeout(() => controller.abort(), 20);
+
+        const report = await executeProcess(cancelProcess, { data: 'x' }, { signal: controller.signal });
+
+        expect(report.cancelled).toBe(true);
+        expect(report.success).toBe(false);
+        expect(report.errors).toEqual([]);
+        expect(report.nodeStatuses).toEqual({ first: 'succeeded', slow: 'cancelled', end: 'cancelled' });
+        expect(report.results).toEqual({});
+        expect(endExecute).not.toHaveBeenCalled();
+    });
+
+    test('should resolve without waiting for phases that ignore the signal', async () => {
+        slowExecute.mockImplementation(input => new Promise(resolve => setTimeout(() => resolve(input), 1000)));
+        setTimeout(() => controller.abort(), 20);
+        const startedAt = Date.now();
+
+        const report = await executeProcess(cancelProcess, { data: 'x' }, { signal: controller.signal });
+
+        expect(Date.now() - startedAt).toBeLessThan(1000);
+        expect(report.nodeStatuses.slow).toBe('cancelled');
+    });
+
+    test('should not start new nodes after the signal is aborted', async () => {
+        cancelProcess.phases.first.next = [{
+            targetPhaseNodeId: 'slow',
+            transform: (output) => {
+                controller.abort();
+                return output;
+            },
+        }];
+
+        const report = await executeProcess(cancelProcess, { data: 'x' }, { signal: controller.signal });
+
+        expect(slowExecute).not.toHaveBeenCalled();
+        expect(report.nodeStatuses).toEqual({ first: 'succeeded', slow: 'cancelled', end: 'cancelled' });
+    });
+
+    test('should cancel every node when the signal is already aborted', async () => {
+        controller.abort();
+
+        const report = await executeProcess(cancelProcess, { data: 'x' }, { signal: controller.signal });
+
+        expect(report.cancelled).toBe(true);
+        expect(report.nodeStatuses).toEqual({ first: 'cancelled', slow: 'cancelled', end: 'cancelled' });
+    });
+});
+
+describe('executeProcess with bounded concurrency', () => {
+    let wideProcess: ProcessInstance;
+    let running: number;
+    let maxRunning: number;
+    let started: string[];
+
+    const trackedPhase = (label: string): Phase.Instance => ({
+        name: label,
+        execute: async (input: Phase.Input): Promise<Phase.Output> => {
+            started.push(label);
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            running--;
+            return input;
+        },
+    });
+
+    beforeEach(() => {
+        running = 0;
+        maxRunning = 0;
+        started = [];
+        // root fans out to w1..w6
+        wideProcess = {
+            name: 'Wide Process',
+            context: mockContext,
+            startPhaseId: 'root',
+            phases: {
+                root: { id: 'root', phase: trackedPhase('root'), next: [] },
+            },
+        };
+        for (let i = 1; i <= 6; i++) {
+            wideProcess.phases[`w${i}`] = { id: `w${i}`, phase: trackedPhase(`w${i}`), next: [] };
+            wideProcess.phases.root.next.push({ targetPhaseNodeId: `w${i}` });
+        }
+    });
+
+    test('should run fan-out with unbounded parallelism by default', async () => {
+        const report = await executeProcess(wideProcess, {});
+
+        expect(maxRunning).toBe(6);
+        expect(Object.keys(report.results)).toHaveLength(6);
+    });
+
+    test('should respect the global concurrency limit', async () => {
+        const report = await executeProcess(wideProcess, {}, { concurrency: 2 });
+
+        expect(maxRunning).toBe(2);
+        expect(report.success).toBe(true);
+        expect(Object.keys(report.results)).toHaveLength(6);
+    });
+
+    test('should respect the fan-out limit of a node', async () => {
+        wideProcess.phases.root.fanOutConcurrency = 3;
+
+        const report = await executeProcess(wideProcess, {});
+
+        expect(maxRunning).toBe(3);
+        expect(Object.keys(report.results)).toHaveLength(6);
+    });
+
+    test('should start ready nodes with a higher priority first', async () => {
+        wideProcess.phases.w5.priority = 10;
+        wideProcess.phases.w3.priority = 5;
+        wideProcess.phases.w1.priority = -1;
+
+        await executeProcess(wideProcess, {}, { concurrency: 1 });
+
+        expect(started).toEqual(['root', 'w5', 'w3', 'w2', 'w4', 'w6', 'w1']);
+    });
+
+    test('should throw for an invalid concurrency option', async () => {
+        await expect(executeProcess(wideProcess, {}, { concurrency: 0 })).rejects.toThrow('Invalid execution options: concurrency should be a positive integer.');
+    });
+
+    test('should return errors for invalid priority and fanOutConcurrency', () => {
+        wideProcess.phases.root.priority = NaN;
+        wideProcess.phases.root.fanOutConcurrency = 1.5;
+
+        expect(validateProcess(wideProcess)).toEqual([
+            'PhaseNode "root" has an invalid priority (should be a finite number).',
+            'PhaseNode "root" has an invalid fanOutConcurrency (should be a positive integer).',
+        ]);
+    });
+});
+
+describe('executeProcess with lifecycle events', () => {
+    let eventProcess: ProcessInstance;
+    let emitter: Events.Emitter;
+    let received: { name: Events.EventName, event: any }[];
+
+    beforeEach(() => {
+        emitter = Events.createEmitter();
+        received = [];
+        const names: Events.EventName[] = [
+            'process:start', 'node:start', 'node:success', 'node:error',
+            'transform:error', 'condition:error', 'node:skipped', 'process:end',
+        ];
+        for (const name of names) {
+            emitter.on(name, (event) => received.push({ name, event }));
+        }
+        // start -> double -> end, start -> never (condition false)
+        eventProcess = {
+            name: 'Event Process',
+            context: mockContext,
+            startPhaseId: 'start',
+            phases: {
+                start: {
+                    id: 'start',
+                    phase: { name: 'Start', execute: async (input) => input },
+                    next: [{ targetPhaseNodeId: 'double' }, { targetPhaseNodeId: 'never', condition: () => false }],
+                },
+                double: { id: 'double', phase: { name: 'Double', execute: async (input) => ({ value: (input.value as number) * 2 }) }, next: [], isEndPhase: true },
+                never: { id: 'never', phase: { name: 'Never', execute: async (input) => input }, next: [], isEndPhase: true },
+            },
+        };
+    });
+
+    test('should emit lifecycle events in order with inputs, outputs and timings', async () => {
+        const report = await executeProcess(eventProcess, { value: 2 }, { events: emitter });
+
+        expect(received.map(r => `${r.name}${r.event.nodeId ? ` ${r.event.nodeId}` : ''}`)).toEqual([
+            'process:start',
+            'node:start start',
+            'node:success start',
+            'node:skipped never',
+            'node:start double',
+            'node:success double',
+            'process:end',
+        ]);
+        expect(received[0].event).toEqual({ processName: 'Event Process', input: { value: 2 }, startedAt: expect.any(Date) });
+        expect(received[5].event).toEqual({
+            processName: 'Event Process',
+            nodeId: 'double',
+            input: { value: 2 },
+            output: { value: 4 },
+            startedAt: expect.any(Date),
+            endedAt: expect.any(Date),
+            durationMs: expect.any(Number),
+            attempts: 1,
+        });
+        expect(received[6].event).toEqual({ processName: 'Event Process', report });
+    });
+
+    test('should emit node:error when a phase fails', async () => {
+        const phaseError = new Error('Double failed');
+        eventProcess.phases.double.phase.execute = async () => { throw phaseError; };
+
+        await executeProcess(eventProcess, { value: 2 }, { events: emitter });
+
+        const errorEvent = received.find(r => r.name === 'node:error')!.event;
+        expect(errorEvent).toEqual({
+            processName: 'Event Process',
+            nodeId: 'double',
+            input: { value: 2 },
+            error: phaseError,
+            startedAt: expect.any(Date),
+            endedAt: expect.any(Date),
+            durationMs: expect.any(Number),
+            attempts: 1,
+        });
+    });
+
+    test('should emit transform:error and condition:error for failing connections', async () => {
+        const transformError = new Error('Transform failed');
+        const conditionError = new Error('Condition failed');
+        eventProcess.phases.start.next = [
+            { targetPhaseNodeId: 'double', transform: () => { throw transformError; } },
+            { targetPhaseNodeId: 'never', condition: () => { throw conditionError; } },
+        ];
+
+        await executeProcess(eventProcess, { value: 2 }, { events: emitter });
+
+        expect(received.find(r => r.name === 'transform:error')!.event).toEqual({
+            processName: 'Event Process',
+            sourceNodeId: 'start',
+            targetNodeId: 'double',
+            output: { value: 2 },
+            error: transformError,
+        });
+        expect(received.find(r => r.name === 'condition:error')!.event).toEqual({
+            processName: 'Event Process',
+            sourceNodeId: 'start',
+            targetNodeId: 'never',
+            output: { value: 2 },
+            error: conditionError,
+        });
+    });
+
+    test('should emit node:skipped for nodes that never ran', async () => {
+        eventProcess.phases.unreachable = { id: 'unreachable', phase: { name: 'Unreachable', execute: async (input) => input }, next: [] };
+
+        await executeProcess(eventProcess, { value: 2 }, { events: emitter });
+
+        expect(received.filter(r => r.name === 'node:skipped').map(r => r.event.nodeId)).toEqual(['never', 'unreachable']);
+    });
+});
+
+describe('executeProcess with a logger', () => {
+    test('should log the process and every phase', async () => {
+        const logger = createMockLogger();
+        const process: ProcessInstance = {
+            name: 'Logged Process',
+            context: mockContext,
+            startPhaseId: 'only',
+            phases: {
+                only: { id: 'only', phase: { name: 'Only', execute: async (input) => input }, next: [] },
+            },
+        };
+
+        await executeProcess(process, {}, { logger });
+
+        expect(logger.info).toHaveBeenCalledWith('Executing process Logged Process', { processName: 'Logged Process' });
+        expect(logger.debug).toHaveBeenCalledWith('Starting phase only', { processName: 'Logged Process', nodeId: 'only' });
+        expect(logger.debug).toHaveBeenCalledWith('Phase only succeeded', { processName: 'Logged Process', nodeId: 'only', attempts: 1 });
+        expect(logger.info).toHaveBeenCalledWith('Process Logged Process succeeded', {
+            processName: 'Logged Process',
+            cancelled: false,
+            durationMs: expect.any(Number),
+        });
+    });
+
+    test('should log a process that did not succeed', async () => {
+        const logger = createMockLogger();
+        const process: ProcessInstance = {
+            name: 'Failing Process',
+            context: mockContext,
+            startPhaseId: 'only',
+            phases: {
+                only: { id: 'only', phase: { name: 'Only', execute: async () => { throw new Error('failed'); } }, next: [] },
+            },
+        };
+
+        await executeProcess(process, {}, { logger });
+
+        expect(logger.info).toHaveBeenCalledWith('Process Failing Process did not succeed', expect.objectContaining({ processName: 'Failing Process' }));
+    });
+
+    test('should not let a failing logger or emitter change the outcome', async () => {
+        const broken = () => { throw new Error('Broken'); };
+        const logger: Logger.Instance = { debug: broken, info: broken, warn: broken, error: broken };
+        const events: Events.Emitter = { on: () => () => { }, emit: broken };
+        const process: ProcessInstance = {
+            name: 'Broken Hooks',
+            context: mockContext,
+            startPhaseId: 'first',
+            phases: {
+                first: {
+                    id: 'first',
+                    phase: { name: 'First', execute: async (input, context) => { context!.events!.on('process:end', () => { }); return input; } },
+                    next: [{ targetPhaseNodeId: 'second' }],
+                },
+                second: { id: 'second', phase: { name: 'Second', execute: async () => { throw new Error('failed'); } }, next: [] },
+            },
+        };
+
+        const report = await executeProcess(process, {}, { logger, events });
+
+        expect(report.nodeStatuses).toEqual({ first: 'succeeded', second: 'failed' });
+        expect(report.errors.map(({ nodeId, error }) => [nodeId, error.message])).toEqual([['second', 'failed']]);
+    });
+
+    test('should fail the node instead of hanging when routing throws unexpectedly', async () => {
+        const logger = createMockLogger();
+        const process: ProcessInstance = {
+            name: 'Changed Process',
+            context: mockContext,
+            startPhaseId: 'first',
+            phases: {
+                first: {
+                    id: 'first',
+                    // Removing a node while the process runs breaks the routing after the phase
+                    phase: { name: 'First', execute: async (input) => { delete process.phases.second; return input; } },
+                    next: [{ targetPhaseNodeId: 'second' }],
+                },
+                second: { id: 'second', phase: { name: 'Second', execute: async (input) => input }, next: [] },
+            },
+        };
+
+        const report = await executeProcess(process, {}, { logger });
+
+        expect(report.nodeStatuses.first).toBe('failed');
+        expect(report.errors).toEqual([{ nodeId: 'first', error: expect.any(TypeError) }]);
+        expect(logger.error).toHaveBeenCalledWith('Unexpected error running phase first', expect.objectContaining({ nodeId: 'first' }));
+    });
+});
+
+describe('executeProcess with a run context', () => {
+    let contextProcess: ProcessInstance;
+    let contexts: Record<string, Phase.Context>;
+
+    beforeEach(() => {
+        contexts = {};
+        // config -> lookup -> report
+        contextProcess = {
+            name: 'Context Process',
+            context: { currency: 'EUR' },
+            startPhaseId: 'config',
+            phases: {
+                config: {
+                    id: 'config',
+                    phase: {
+                        name: 'Config',
+                        execute: async (input, context) => {
+                            contexts.config = context!;
+                            context!.store.set('rates', { EUR: 1.1 });
+                            return { amount: input.amount };
+                        },
+                    },
+                    next: [{ targetPhaseNodeId: 'convert' }],
+                },
+                convert: {
+                    id: 'convert',
+                    phase: {
+                        name: 'Convert',
+                        execute: async (input, context) => {
+                            contexts.convert = context!;
+                            const currency = context!.processContext.currency as string;
+                            const rates = context!.store.get<Record<string, number>>('rates')!;
+                            return { converted: (input.amount as number) * rates[currency], currency };
+                        },
+                    },
+                    next: [],
+                    isEndPhase: true,
+                },
+            },
+        };
+    });
+
+    test('should pass the process context, run id, node id, finished outputs and store to each phase', async () => {
+        const report = await executeProcess(contextProcess, { amount: 10 }, { runId: 'run-1' });
+
+        expect(report.runId).toBe('run-1');
+        expect(report.results).toEqual({ convert: { converted: 11, currency: 'EUR' } });
+        expect(contexts.config).toEqual(expect.objectContaining({
+            processContext: { currency: 'EUR' },
+            runId: 'run-1',
+            nodeId: 'config',
+            outputs: {},
+        }));
+        expect(contexts.convert.nodeId).toBe('convert');
+        expect(contexts.convert.outputs).toEqual({ config: { amount: 10 } });
+        expect(contexts.convert.store.has('rates')).toBe(true);
+        expect(contexts.convert.store.has('missing')).toBe(false);
+        expect(contexts.convert.store).toBe(contexts.config.store);
+    });
+
+    test('should generate a run id and use a separate store for every execution', async () => {
+        const first = await executeProcess(contextProcess, { amount: 10 });
+        const firstStore = contexts.config.store;
+        const second = await executeProcess(contextProcess, { amount: 10 });
+
+        expect(first.runId).toMatch(/^[0-9a-f-]{36}$/);
+        expect(second.runId).not.toBe(first.runId);
+        expect(contexts.config.store).not.toBe(firstStore);
+    });
+});
+
+describe('executeProcess with a typed definition', () => {
+    it('should pass typed outputs along the connections', async () => {
+        const parse: Phase.Instance<{ text: string }, { value: number }> = {
+            name: 'Parse',
+            execute: async (input) => ({ value: Number(input.text) }),
+        };
+        const double: Phase.Instance<{ value: number }, { value: number }> = {
+            name: 'Double',
+            execute: async (input) => ({ value: input.value * 2 }),
+        };
+        const format: Phase.Instance<{ label: string }, { label: string }> = {
+            name: 'Format',
+            execute: async (input) => ({ label: `[${input.label}]` }),
+        };
+        const process = define({
+            name: 'Typed',
+            phases: { parse, double, format },
+            startPhaseId: 'parse',
+            next: {
+                parse: [{ target: 'double' }],
+                double: [{ target: 'format', transform: (output) => ({ label: String(output.value) }) }],
+            },
+            nodes: { format: { isEndPhase: true } },
+        });
+
+        expect(validateProcess(process)).toEqual([]);
+        const { results } = await executeProcess(process, { text: '21' });
+        expect(results).toEqual({ format: { label: '[42]' } });
+    });
+});
+
+describe('executeProcess with a state store', () => {
+    let loadCalls: number;
+    let saveAttempts: number;
+    let checkpointProcess: ProcessInstance;
+
+    beforeEach(() => {
+        loadCalls = 0;
+        saveAttempts = 0;
+        // load -> save -> notify, where save fails the first time
+        checkpointProcess = {
+            name: 'Checkpoint Process',
+            context: {},
+            startPhaseId: 'load',
+            phases: {
+                load: {
+                    id: 'load',
+                    phase: { name: 'Load', execute: async () => ({ rows: ++loadCalls }) },
+                    next: [{ targetPhaseNodeId: 'save' }],
+                },
+                save: {
+                    id: 'save',
+                    phase: {
+                        name: 'Save',
+                        execute: async (input) => {
+                            if (++saveAttempts === 1) {
+                                throw new Error('Database unavailable');
+                            }
+                            return { saved: input.rows };
+                        },
+                    },
+                    next: [{ targetPhaseNodeId: 'notify' }],
+                },
+                notify: {
+                    id: 'notify',
+                    phase: { name: 'Notify', execute: async (input) => ({ message: `Saved ${input.saved}` }) },
+                    next: [],
+                    isEndPhase: true,
+                },
+            },
+        };
+    });
+
+    it('should save the outputs and statuses of finished nodes under the run id', async () => {
+        const stateStore = StateStore.createMemoryStateStore();
+        await executeProcess(checkpointProcess, {}, { runId: 'run-1', stateStore });
+
+        const run = await stateStore.load('run-1');
+        expect(run!.processName).toBe('Checkpoint Process');
+        expect(run!.nodes).toEqual({
+            load: { status: 'succeeded', output: { rows: 1 }, updatedAt: expect.any(String) },
+            save: { status: 'failed', updatedAt: expect.any(String) },
+        });
+    });
+
+    it('should resume a run without executing the nodes that already succeeded', async () => {
+        const stateStore = StateStore.createMemoryStateStore();
+        const first = await executeProcess(checkpointProcess, {}, { runId: 'run-1', stateStore });
+        expect(first.success).toBe(false);
+
+        const events = Events.createEmitter();
+        const restored: string[] = [];
+        const started: string[] = [];
+        events.on('node:restored', event => restored.push(event.nodeId));
+        events.on('node:start', event => started.push(event.nodeId));
+        const second = await executeProcess(checkpointProcess, {}, { runId: 'run-1', stateStore, resume: true, events });
+
+        expect(second.success).toBe(true);
+        expect(second.results).toEqual({ notify: { message: 'Saved 1' } });
+        expect(second.nodeStatuses).toEqual({ load: 'succeeded', save: 'succeeded', notify: 'succeeded' });
+        expect(loadCalls).toBe(1);
+        expect(restored).toEqual(['load']);
+        expect(started).toEqual(['save', 'notify']);
+        expect(second.attempts.map(attempt => attempt.nodeId)).toEqual(['save', 'notify']);
+        expect((await stateStore.load('run-1'))!.nodes.save.status).toBe('succeeded');
+    });
+
+    it('should start a new run when not resuming', async () => {
+        const stateStore = StateStore.createMemoryStateStore();
+        await executeProcess(checkpointProcess, {}, { runId: 'run-1', stateStore });
+        await executeProcess(checkpointProcess, {}, { runId: 'run-1', stateStore });
+        expect(loadCalls).toBe(2);
+    });
+
+    it('should throw when resuming without a run id or a state store', async () => {
+        const message = 'Invalid execution options: resume requires a runId and a stateStore.';
+        await expect(executeProcess(checkpointProcess, {}, { resume: true, stateStore: StateStore.createMemoryStateStore() })).rejects.toThrow(message);
+        await expect(executeProcess(checkpointProcess, {}, { resume: true, runId: 'run-1' })).rejects.toThrow(message);
+    });
+
+    it('should throw when resuming an unknown run', async () => {
+        await expect(executeProcess(checkpointProcess, {}, { runId: 'unknown', stateStore: StateStore.createMemoryStateStore(), resume: true }))
+            .rejects.toThrow('No saved state for run "unknown".');
+    });
+
+    it('should throw when resuming a run of another process', async () => {
+        const stateStore = StateStore.createMemoryStateStore();
+        await stateStore.start('run-1', 'Other Process');
+
+        await expect(executeProcess(checkpointProcess, {}, { runId: 'run-1', stateStore, resume: true }))
+            .rejects.toThrow(`Run "run-1" was saved by process "Other Process", not "${checkpointProcess.name}".`);
+        expect(loadCalls).toBe(0);
+    });
+
+    it('should fail a node whose output cannot be saved', async () => {
+        const stateStore = StateStore.createMemoryStateStore();
+        const saveError = new Error('Disk full');
+        stateStore.saveNode = jest.fn(async () => { throw saveError; });
+        const logger = createMockLogger();
+        const report = await executeProcess(checkpointProcess, {}, { runId: 'run-1', stateStore, logger });
+
+        expect(report.nodeStatuses.load).toBe('failed');
+        expect(report.errors).toEqual([{ nodeId: 'load', error: saveError, attempt: 1 }]);
+        expect(logger.error).toHaveBeenCalledWith('Error saving the state of phase load', {
+            processName: 'Checkpoint Process',
+            nodeId: 'load',
+            error: saveError,
+        });
+    });
+});
+
+describe('executeProcess with loops', () => {
+    let loopProcess: ProcessInstance;
+    let iterations: number[];
+
+    beforeEach(() => {
+        iterations = [];
+        // draft -> refine -> check -> refine (while the score is low) | publish (default)
+        loopProcess = {
+            name: 'Loop Process',
+            context: { threshold: 9 },
+            startPhaseId: 'draft',
+            phases: {
+                draft: {
+                    id: 'draft',
+                    phase: { name: 'Draft', execute: async () => ({ score: 0 }) },
+                    next: [{ targetPhaseNodeId: 'refine' }],
+                },
+                refine: {
+                    id: 'refine',
+                    phase: {
+                        name: 'Refine',
+                        execute: async (input, context) => {
+                            iterations.push(context!.iteration);
+                            return { score: (input.score as number) + 3 };
+                        },
+                    },
+                    next: [{ targetPhaseNodeId: 'check' }],
+                    maxIterations: 3,
+                },
+                check: {
+                    id: 'check',
+                    phase: { name: 'Check', execute: async (input) => input },
+                    next: [
+                        { targetPhaseNodeId: 'refine', condition: (output, context) => (output.score as number) < (context.threshold as number) },
+                        { targetPhaseNodeId: 'publish', isDefault: true },
+                    ],
+                },
+                publish: {
+                    id: 'publish',
+                    phase: { name: 'Publish', execute: async (input) => ({ published: input.score }) },
+                    next: [],
+                    isEndPhase: true,
+                },
+            },
+        };
+    });
+
+    test('should re-enter a loop node until its condition stops passing', async () => {
+        const report = await executeProcess(loopProcess, {});
+
+        expect(report.success).toBe(true);
+        expect(iterations).toEqual([1, 2, 3]);
+        expect(report.history.refine).toEqual([{ score: 3 }, { score: 6 }, { score: 9 }]);
+        expect(report.history.check).toEqual([{ score: 3 }, { score: 6 }, { score: 9 }]);
+        expect(report.history.draft).toEqual([{ score: 0 }]);
+        expect(report.results).toEqual({ publish: { published: 9 } });
+        expect(report.nodeStatuses.refine).toBe('succeeded');
+    });
+
+    test('should take the default connection once a loop node reached its cap', async () => {
+        loopProcess.context.threshold = 100;
+        const logger = createMockLogger();
+
+        const report = await executeProcess(loopProcess, {}, { logger });
+
+        expect(iterations).toEqual([1, 2, 3]);
+        expect(report.results).toEqual({ publish: { published: 9 } });
+        expect(logger.warn).toHaveBeenCalledWith('Phase refine reached its iteration cap of 3.', {
+            processName: 'Loop Process',
+            nodeId: 'refine',
+        });
+    });
+
+    test('should apply the process cap to cycles without a cap of their own', async () => {
+        loopProcess.context.threshold = 100;
+        delete loopProcess.phases.refine.maxIterations;
+        loopProcess.maxIterations = 2;
+
+        const report = await executeProcess(loopProcess, {});
+
+        expect(iterations).toEqual([1, 2]);
+        expect(report.history.check).toHaveLength(2);
+        expect(report.results).toEqual({ publish: { published: 6 } });
+    });
+
+    test('should let nodes on a capped cycle run as often as the capped node', async () => {
+        loopProcess.context.threshold = 100;
+        loopProcess.phases.refine.maxIterations = 5;
+
+        const report = await executeProcess(loopProcess, {});
+
+        expect(report.history.check).toHaveLength(5);
+        expect(report.results).toEqual({ publish: { published: 15 } });
+    });
+
+    test('should report cycles without an iteration cap', () => {
+        delete loopProcess.phases.refine.maxIterations;
+        expect(validateProcess(loopProcess)).toEqual([
+            'PhaseNode "refine" is on a cycle through "refine", "check" without an iteration cap (set maxIterations on one of these nodes or on the process).',
+        ]);
+    });
+
+    test('should report cycles that avoid the capped node', () => {
+        // check -> review -> check does not pass through refine
+        loopProcess.phases.check.next.push({ targetPhaseNodeId: 'review' });
+        loopProcess.phases.review = { id: 'review', phase: loopProcess.phases.check.phase, next: [{ targetPhaseNodeId: 'check' }] };
+        loopProcess.phases.publish.next = [{ targetPhaseNodeId: 'publish' }];
+
+        expect(validateProcess(loopProcess)).toEqual([
+            'PhaseNode "check" is on a cycle through "check", "review" without an iteration cap (set maxIterations on one of these nodes or on the process).',
+            'PhaseNode "publish" is on a cycle through "publish" without an iteration cap (set maxIterations on one of these nodes or on the process).',
+        ]);
+
+        loopProcess.maxIterations = 4;
+        expect(validateProcess(loopProcess)).toEqual([]);
+    });
+
+    test('should return errors for invalid iteration caps', () => {
+        loopProcess.phases.refine.maxIterations = 0;
+        loopProcess.maxIterations = 2.5;
+        expect(validateProcess(loopProcess)).toEqual([
+            'Process has an invalid maxIterations (should be a positive integer).',
+            'PhaseNode "refine" has an invalid maxIterations (should be a positive integer).',
+        ]);
+    });
+});
+
+describe('executeProcess with forEach nodes', () => {
+    let forEachProcess: ProcessInstance;
+    let priceExecute: jest.MockedFunction<(input: Phase.Input, context?: Phase.Context) => Promise<Phase.Output>>;
+
+    beforeEach(() => {
+        priceExecute = jest.fn(async (input: Phase.Input) => ({ sku: input.sku, total: (input.quantity as number) * 2 }));
+        // load -> price (for each line) -> sum
+        forEachProcess = {
+            name: 'ForEach Process',
+            context: mockContext,
+            startPhaseId: 'load',
+            phases: {
+                load: {
+                    id: 'load',
+                    phase: { name: 'Load', execute: async (input) => input },
+                    next: [{ targetPhaseNodeId: 'price' }],
+                },
+                price: {
+                    id: 'price',
+                    phase: { name: 'Price', execute: priceExecute },
+                    next: [{ targetPhaseNodeId: 'sum' }],
+                    forEach: { items: (input) => input.lines as Phase.Input[] },
+                },
+                sum: {
+                    id: 'sum',
+                    phase: {
+                        name: 'Sum',
+                        execute: async (input) => ({ sum: (input as PhaseNode.ForEachOutput).outputs.reduce((sum, output) => sum + ((output?.total as number) ?? 0), 0) }),
+                    },
+                    next: [],
+                    isEndPhase: true,
+                },
+            },
+        };
+    });
+
+    const lines = [{ sku: 'a', quantity: 1 }, { sku: 'b', quantity: 2 }, { sku: 'c', quantity: 3 }];
+
+    test('should run the phase for every item and pass on the outputs in order', async () => {
+        priceExecute.mockImplementationOnce(async (input) => {
+            await new Promise(resolve => setTimeout(resolve, 10));
+            return { sku: input.sku, total: 2 };
+        });
+
+        const report = await executeProcess(forEachProcess, { lines });
+
+        expect(report.success).toBe(true);
+        expect(report.history.price).toEqual([{
+            outputs: [{ sku: 'a', total: 2 }, { sku: 'b', total: 4 }, { sku: 'c', total: 6 }],
+            errors: [],
+        }]);
+        expect(report.results).toEqual({ sum: { sum: 12 } });
+        expect(priceExecute.mock.calls.map(([, context]) => context!.item)).toEqual([0, 1, 2]);
+        expect(priceExecute.mock.calls[0][1]!.nodeId).toBe('price');
+    });
+
+    test('should collect the errors of failed items', async () => {
+        const itemError = new Error('Unknown sku');
+        priceExecute.mockImplementation(async (input) => {
+            if (input.sku === 'a') {
+                await new Promise(resolve => setTimeout(resolve, 10));
+                throw itemError;
+            }
+            if (input.sku === 'c') {
+                throw 'Out of stock';
+            }
+            return { total: input.quantity };
+        });
+
+        const report = await executeProcess(forEachProcess, { lines });
+
+        expect(report.success).toBe(true);
+        expect(report.history.price).toEqual([{
+            outputs: [undefined, { total: 2 }, undefined],
+            errors: [{ index: 0, error: itemError }, { index: 2, error: 'Out of stock' }],
+        }]);
+        expect(report.results).toEqual({ sum: { sum: 2 } });
+    });
+
+    test('should fail the node when an item fails and onItemError is fail', async () => {
+        forEachProcess.phases.price.forEach!.onItemError = 'fail';
+        forEachProcess.phases.price.forEach!.concurrency = 1;
+        const itemError = new Error('Unknown sku');
+        priceExecute.mockRejectedValueOnce(itemError);
+
+        const report = await executeProcess(forEachProcess, { lines });
+
+        expect(report.success).toBe(false);
+        expect(report.errors).toEqual([{ nodeId: 'price', error: itemError, attempt: 1 }]);
+        expect(priceExecute).toHaveBeenCalledTimes(1);
+        expect(report.nodeStatuses.sum).toBe('skipped');
+    });
+
+    test('should limit the number of items processed at the same time', async () => {
+        forEachProcess.phases.price.forEach!.concurrency = 2;
+        let running = 0;
+        let maxRunning = 0;
+        priceExecute.mockImplementation(async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+            return {};
+        });
+
+        await executeProcess(forEachProcess, { lines: [...lines, ...lines] });
+
+        expect(priceExecute).toHaveBeenCalledTimes(6);
+        expect(maxRunning).toBe(2);
+    });
+
+    test('should process no more items at the same time than the execution concurrency allows', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        priceExecute.mockImplementation(async () => {
+            maxRunning = Math.max(maxRunning, ++running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+            return {};
+        });
+
+        await executeProcess(forEachProcess, { lines: [...lines, ...lines] }, { concurrency: 3 });
+
+        expect(priceExecute).toHaveBeenCalledTimes(6);
+        expect(maxRunning).toBe(3);
+    });
+
+    test('should pass on empty outputs when there are no items', async () => {
+        const report = await executeProcess(forEachProcess, { lines: [] });
+
+        expect(report.history.price).toEqual([{ outputs: [], errors: [] }]);
+        expect(priceExecute).not.toHaveBeenCalled();
+    });
+
+    test('should retry every item with the policy of the node', async () => {
+        forEachProcess.phases.price.retry = { maxAttempts: 2 };
+        const transientError = new Error('Transient failure');
+        priceExecute.mockRejectedValueOnce(transientError);
+
+        const report = await executeProcess(forEachProcess, { lines: lines.slice(0, 2) });
+
+        expect(report.success).toBe(true);
+        expect(report.attempts.filter(attempt => attempt.nodeId === 'price')).toEqual([
+            { nodeId: 'price', item: 0, attempt: 1, startedAt: expect.any(Date), endedAt: expect.any(Date), error: transientError },
+            { nodeId: 'price', item: 1, attempt: 1, startedAt: expect.any(Date), endedAt: expect.any(Date) },
+            { nodeId: 'price', item: 0, attempt: 2, startedAt: expect.any(Date), endedAt: expect.any(Date) },
+        ]);
+    });
+
+    test('should fail the node when the items are not an array', async () => {
+        const report = await executeProcess(forEachProcess, { lines: 'a,b' });
+
+        expect(report.success).toBe(false);
+        expect(report.errors[0].error.message).toBe('The forEach items of phase price should be an array.');
+    });
+
+    test('should stop processing items when the execution is cancelled', async () => {
+        const controller = new AbortController();
+        forEachProcess.phases.price.forEach!.concurrency = 1;
+        priceExecute.mockImplementation(async () => {
+            controller.abort();
+            return {};
+        });
+
+        const report = await executeProcess(forEachProcess, { lines }, { signal: controller.signal });
+
+        expect(report.cancelled).toBe(true);
+        expect(priceExecute).toHaveBeenCalledTimes(1);
+        expect(report.nodeStatuses.price).toBe('cancelled');
+    });
+
+    test('should validate the forEach settings', () => {
+        forEachProcess.phases.price.forEach = { items: (input) => [input], concurrency: 0, onItemError: 'ignore' as any };
+        forEachProcess.phases.sum.forEach = { items: 'lines' } as any;
+
+        expect(validateProcess(forEachProcess)).toEqual([
+            'PhaseNode "price" has an invalid forEach concurrency (should be a positive integer).',
+            'PhaseNode "price" has an invalid forEach onItemError (should be one of collect, fail).',
+            'PhaseNode "sum" has an invalid forEach (items should be a function).',
+        ]);
+    });
+});
+
+describe('executeProcess with stream phases', () => {
+    let log: string[];
+    let streamProcess: ProcessInstance;
+
+    const read = (lines: string[]) => Phase.createStream('Read', async function* () {
+        for (const line of lines) {
+            log.push(`read ${line}`);
+            yield line;
+        }
+    });
+    const parse = Phase.createStream('Parse', async function* (input: AsyncIterable<string>) {
+        for await (const line of input) {
+            log.push(`parse ${line}`);
+            yield { value: Number(line) };
+        }
+    });
+
+    beforeEach(() => {
+        log = [];
+        // read -> parse -> total
+        streamProcess = {
+            name: 'Stream Process',
+            context: mockContext,
+            startPhaseId: 'read',
+            phases: {
+                read: { id: 'read', phase: read(['1', '2', '3']), next: [{ targetPhaseNodeId: 'parse' }] },
+                parse: { id: 'parse', phase: parse, next: [{ targetPhaseNodeId: 'total' }] },
+                total: {
+                    id: 'total',
+                    phase: {
+                        name: 'Total',
+                        execute: async (input) => ({ total: (input.items as { value: number }[]).reduce((sum, item) => sum + item.value, 0) }),
+                    },
+                    next: [],
+                    isEndPhase: true,
+                },
+            },
+        };
+    });
+
+    test('should pipe items between stream phases one at a time and collect them for other phases', async () => {
+        const events = Events.createEmitter();
+        const finished: string[] = [];
+        events.on('node:success', event => finished.push(event.nodeId));
+
+        const report = await executeProcess(streamProcess, {}, { events });
+
+        expect(report.success).toBe(true);
+        expect(log).toEqual(['read 1', 'parse 1', 'read 2', 'parse 2', 'read 3', 'parse 3']);
+        expect(report.history.read).toEqual([{ count: 3 }]);
+        expect(report.history.parse).toEqual([{ items: [{ value: 1 }, { value: 2 }, { value: 3 }] }]);
+        expect(report.results).toEqual({ total: { total: 6 } });
+        expect(finished).toEqual(['read', 'parse', 'total']);
+    });
+
+    test('should pipe streams with one execution slot', async () => {
+        const report = await executeProcess(streamProcess, {}, { concurrency: 1 });
+        expect(report.results).toEqual({ total: { total: 6 } });
+    });
+
+    test('should collect a stream whose connection has a transform', async () => {
+        streamProcess.phases.read.next = [{
+            targetPhaseNodeId: 'total',
+            transform: (output) => ({ items: (output.items as string[]).map(line => ({ value: Number(line) })) }),
+        }];
+
+        const report = await executeProcess(streamProcess, {});
+
+        expect(report.history.read).toEqual([{ items: ['1', '2', '3'] }]);
+        expect(report.results).toEqual({ total: { total: 6 } });
+    });
+
+    test('should pass the collected items as a stream to a consumer that is not piped', async () => {
+        // read -> parse -> total, read -> audit: the second connection keeps read from piping
+        const audited: unknown[] = [];
+        streamProcess.phases.read.next.push({ targetPhaseNodeId: 'audit' });
+        streamProcess.phases.audit = {
+            id: 'audit',
+            phase: { name: 'Audit', execute: async (input) => { audited.push(input); return {}; } },
+            next: [],
+        };
+        streamProcess.phases.parse.retry = { maxAttempts: 2, delayMs: 0 };
+        let attempts = 0;
+        const parsePhase = streamProcess.phases.parse.phase as Phase.StreamInstance;
+        streamProcess.phases.parse.phase = Phase.createStream('Parse', async function* (input: AsyncIterable<string>, context) {
+            attempts++;
+            for await (const item of parsePhase.stream(input as unknown as Phase.Input, context)) {
+                if (attempts === 1) {
+                    throw new Error('Flaky');
+                }
+                yield item;
+            }
+        });
+
+        const report = await executeProcess(streamProcess, {});
+
+        expect(report.success).toBe(true);
+        expect(report.history.read).toEqual([{ items: ['1', '2', '3'] }]);
+        expect(audited).toEqual([{ items: ['1', '2', '3'] }]);
+        expect(report.history.parse).toEqual([{ items: [{ value: 1 }, { value: 2 }, { value: 3 }] }]);
+        expect(report.results).toEqual({ total: { total: 6 } });
+        expect(attempts).toBe(2);
+    });
+
+    test('should fail the producer and the consumer when the stream fails', async () => {
+        const streamError = new Error('Disk error');
+        streamProcess.phases.read.phase = Phase.createStream('Read', async function* () {
+            yield '1';
+            throw streamError;
+        });
+
+        const report = await executeProcess(streamProcess, {});
+
+        expect(report.success).toBe(false);
+        expect(report.errors[0]).toEqual({ nodeId: 'read', error: streamError });
+        expect(report.errors[1].nodeId).toBe('parse');
+        expect(report.errors[1].error.message).toBe('The stream of phase read failed.');
+        expect(report.errors[1].error.cause).toBe(streamError);
+        expect(report.nodeStatuses.total).toBe('skipped');
+    });
+
+    test('should finish the producer when the consumer stops reading', async () => {
+        streamProcess.phases.parse.phase = Phase.createStream('Parse', async function* (input: AsyncIterable<string>) {
+            for await (const line of input) {
+                yield { value: Number(line) };
+                break;
+            }
+        });
+
+        const report = await executeProcess(streamProcess, {});
+
+        expect(report.history.read).toEqual([{ count: 1 }]);
+        expect(report.results).toEqual({ total: { total: 1 } });
+    });
+
+    test('should finish the producer when the consumer fails without reading', async () => {
+        const parseError = new Error('No parser');
+        streamProcess.retry = { maxAttempts: 3 };
+        streamProcess.phases.parse.phase = Phase.createStream('Parse', () => { throw parseError; });
+
+        const report = await executeProcess(streamProcess, {});
+
+        expect(report.nodeStatuses.read).toBe('succeeded');
+        expect(report.history.read).toEqual([{ count: 0 }]);
+        expect(report.errors).toEqual([{ nodeId: 'parse', error: parseError, attempt: 1 }]);
+    });
+
+    test('should cancel the producer and the consumer', async () => {
+        const controller = new AbortController();
+        streamProcess.phases.parse.phase = Phase.createStream('Parse', async function* (input: AsyncIterable<string>) {
+            for await (const line of input) {
+                controller.abort();
+                yield line;
+            }
+        });
+
+        const report = await executeProcess(streamProcess, {}, { signal: controller.signal });
+
+        expect(report.cancelled).toBe(true);
+        expect(report.nodeStatuses).toEqual({ read: 'cancelled', parse: 'cancelled', total: 'cancelled' });
+    });
+
+    test('should run the producer again on resume unless its consumer succeeded', async () => {
+        const stateStore = StateStore.createMemoryStateStore();
+        const totalError = new Error('Database offline');
+        const total = streamProcess.phases.total.phase;
+        streamProcess.phases.total.phase = { name: 'Total', execute: async () => { throw totalError; } };
+        await executeProcess(streamProcess, {}, { runId: 'stream-run', stateStore });
+        await stateStore.saveNode('stream-run', 'parse', { status: 'failed', updatedAt: new Date().toISOString() });
+
+        streamProcess.phases.total.phase = total;
+        log = [];
+        const report = await executeProcess(streamProcess, {}, { runId: 'stream-run', stateStore, resume: true });
+
+        expect(report.results).toEqual({ total: { total: 6 } });
+        expect(log).toHaveLength(6);
+    });
+});
+
+describe('executeProcess with schemas', () => {
+    let schemaProcess: ProcessInstance;
+    let saveExecute: jest.MockedFunction<(input: Phase.Input) => Promise<Phase.Output>>;
+    const quote = Schema.create({ type: 'object', required: ['price'], properties: { price: { type: 'number', minimum: 0 } } });
+
+    beforeEach(() => {
+        saveExecute = jest.fn(async () => ({ saved: true }));
+        // price -> save
+        schemaProcess = {
+            name: 'Schema Process',
+            context: mockContext,
+            startPhaseId: 'price',
+            phases: {
+                price: {
+                    id: 'price',
+                    phase: {
+                        name: 'Price',
+                        execute: async (input) => ({ price: (input.quantity as number) * 2 }),
+                        inputSchema: Schema.create({ type: 'object', required: ['quantity'], properties: { quantity: { type: 'integer' } } }),
+                        outputSchema: quote,
+                    },
+                    next: [{ targetPhaseNodeId: 'save' }],
+                },
+                save: { id: 'save', phase: { name: 'Save', execute: saveExecute, inputSchema: quote }, next: [], isEndPhase: true },
+            },
+        };
+    });
+
+    test('should run phases whose input and output match their schemas', async () => {
+        const report = await executeProcess(schemaProcess, { quantity: 2 });
+        expect(report.success).toBe(true);
+        expect(saveExecute).toHaveBeenCalledWith({ price: 4 }, expect.anything());
+    });
+
+    test('should fail a node whose input does not match its schema without executing it', async () => {
+        schemaProcess.retry = { maxAttempts: 3 };
+        const execute = jest.spyOn(schemaProcess.phases.price.phase, 'execute');
+
+        const report = await executeProcess(schemaProcess, { quantity: 'two' });
+
+        expect(execute).not.toHaveBeenCalled();
+        expect(report.errors).toHaveLength(1);
+        expect(report.errors[0].nodeId).toBe('price');
+        expect(report.errors[0].error.message).toBe('Invalid input for phase price: quantity should be an integer.');
+        expect(Schema.isValidationError(report.errors[0].error)).toBe(true);
+    });
+
+    test('should fail a node whose output does not match its schema', async () => {
+        const report = await executeProcess(schemaProcess, { quantity: -1 });
+
+        expect(report.errors).toEqual([{ nodeId: 'price', error: expect.objectContaining({ message: 'Invalid output of phase price: price should be at least 0.' }), attempt: 1 }]);
+        expect(saveExecute).not.toHaveBeenCalled();
+    });
+
+    test('should attribute transform results that do not match the target schema to the target', async () => {
+        schemaProcess.phases.price.next[0].transform = (output) => ({ price: String(output.price) });
+        const events = Events.createEmitter();
+        const transformErrors: string[] = [];
+        events.on('transform:error', event => transformErrors.push(event.error.message));
+
+        const report = await executeProcess(schemaProcess, { quantity: 2 }, { events });
+
+        expect(report.nodeStatuses.save).toBe('failed');
+        expect(transformErrors).toEqual(['Invalid input for phase save from the transform of price: price should be a number.']);
+        expect(saveExecute).not.toHaveBeenCalled();
+    });
+
+    test('should check every item of a forEach node', async () => {
+        schemaProcess.phases.price.forEach = { items: (input) => input.orders as Phase.Input[] };
+        schemaProcess.phases.save.phase.inputSchema = undefined;
+
+        const report = await executeProcess(schemaProcess, { orders: [{ quantity: 1 }, { quantity: 'x' }, { quantity: -1 }] });
+
+        const output = report.history.price[0] as PhaseNode.ForEachOutput;
+        expect(output.outputs).toEqual([{ price: 2 }, undefined, undefined]);
+        expect(output.errors.map(({ index, error }) => [index, error.message])).toEqual([
+            [1, 'Invalid input for phase price (item 1): quantity should be an integer.'],
+            [2, 'Invalid output of phase price (item 2): price should be at least 0.'],
+        ]);
+    });
+
+    test('should accept any validator', async () => {
+        schemaProcess.phases.save.phase.inputSchema = {
+            validate: (value) => (value as Phase.Input).price === 4 ? [] : [{ path: 'price', message: 'should be 4' }],
+        };
+        expect((await executeProcess(schemaProcess, { quantity: 2 })).success).toBe(true);
+        expect((await executeProcess(schemaProcess, { quantity: 3 })).errors[0].error.message).toBe('Invalid input for phase save: price should be 4.');
+    });
+
+    test('should report connections whose schemas do not fit', () => {
+        schemaProcess.phases.price.phase.outputSchema = Schema.create({ type: 'object', required: [], properties: { price: { type: 'string' } } });
+
+        expect(validateProcess(schemaProcess)).toEqual([
+            'PhaseNode "price" has an output schema that does not fit the input schema of "save" (price is required but not guaranteed; price is string but should be number).',
+        ]);
+    });
+
+    test('should not compare schemas across transforms, joins or custom validators', () => {
+        const output = Schema.create({ type: 'string' });
+        schemaProcess.phases.price.phase.outputSchema = output;
+        schemaProcess.phases.price.next[0].transform = (value) => value;
+        expect(validateProcess(schemaProcess)).toEqual([]);
+
+        schemaProcess.phases.price.next[0].transform = undefined;
+        schemaProcess.phases.save.join = { mode: 'all' };
+        expect(validateProcess(schemaProcess)).toEqual([]);
+
+        schemaProcess.phases.save.join = undefined;
+        schemaProcess.phases.save.phase.inputSchema = { validate: () => [] };
+        expect(validateProcess(schemaProcess)).toEqual([]);
+    });
+
+    test('should return errors for invalid schemas', () => {
+        schemaProcess.phases.price.phase.inputSchema = 'object' as any;
+        schemaProcess.phases.save.phase.outputSchema = {} as any;
+
+        expect(validateProcess(schemaProcess)).toEqual([
+            'PhaseNode "price" has a phase with an invalid inputSchema (should have a validate function).',
+            'PhaseNode "save" has a phase with an invalid outputSchema (should have a validate function).',
+        ]);
+    });
+});
+
+describe('executeProcess with metrics and tracing', () => {
+    let diamondProcess: ProcessInstance;
+
+    beforeEach(() => {
+        const passThrough = (label: string): Phase.Instance => ({
+            name: label,
+            execute: async (input: TestInput): Promise<TestOutput> => ({ data: `${label}(${input.data})` }),
+        });
+        // a -> b -> d, a -> c -> d (diamond)
+        diamondProcess = {
+            name: 'Traced',
+            context: mockContext,
+            startPhaseId: 'a',
+            phases: {
+                a: { id: 'a', phase: passThrough('A'), next: [{ targetPhaseNodeId: 'b' }, { targetPhaseNodeId: 'c' }] },
+                b: { id: 'b', phase: passThrough('B'), next: [{ targetPhaseNodeId: 'd' }] },
+                c: { id: 'c', phase: passThrough('C'), next: [{ targetPhaseNodeId: 'd' }] },
+                d: { id: 'd', phase: { name: 'D', execute: async (input) => ({ merged: input }) }, next: [], isEndPhase: true, join: { mode: 'all' } },
+            },
+        };
+    });
+
+    test('should report the timing of every node execution', async () => {
+        diamondProcess.phases.d.retry = { maxAttempts: 2, delayMs: 0 };
+        let calls = 0;
+        diamondProcess.phases.d.phase.execute = async (input) => {
+            calls++;
+            if (calls === 1) {
+                throw new Error('Flaky');
+            }
+            return { merged: input };
+        };
+
+        const report = await executeProcess(diamondProcess, { data: 'x' });
+
+        expect(Object.keys(report.timings).sort()).toEqual(['a', 'b', 'c', 'd']);
+        expect(report.timings.a).toEqual([{
+            queuedAt: expect.any(Date),
+            startedAt: expect.any(Date),
+            endedAt: expect.any(Date),
+            queueMs: expect.any(Number),
+            durationMs: expect.any(Number),
+            attempts: 1,
+        }]);
+        // Sizes are only measured for a metrics sink
+        expect(report.timings.a[0].inputBytes).toBeUndefined();
+        expect(report.timings.a[0].outputBytes).toBeUndefined();
+        expect(report.timings.d[0].attempts).toBe(2);
+        expect(report.timings.d[0].startedAt.getTime()).toBeGreaterThanOrEqual(report.timings.d[0].queuedAt.getTime());
+        expect(report.traceId).toBeUndefined();
+    });
+
+    test('should leave sizes unset for values that are not JSON', async () => {
+        const circular: Record<string, unknown> = {};
+        circular.self = circular;
+        diamondProcess.phases.a.phase.execute = async () => circular;
+
+        const report = await executeProcess(diamondProcess, {}, { metrics: Metrics.createMemorySink() });
+
+        expect(report.timings.a[0].inputBytes).toBe(2);
+        expect(report.timings.a[0].outputBytes).toBeUndefined();
+    });
+
+    test('should send counters and histograms to the metrics sink', async () => {
+        diamondProcess.phases.c.phase.execute = async () => { throw new Error('C failed'); };
+        const metrics = Metrics.createMemorySink();
+
+        const report = await executeProcess(diamondProcess, { data: 'x' }, { metrics });
+
+        expect(report.timings.a[0].inputBytes).toBe(JSON.stringify({ data: 'x' }).length);
+        expect(report.timings.a[0].outputBytes).toBe(JSON.stringify({ data: 'A(x)' }).length);
+        const { counters, histograms } = metrics.snapshot();
+        expect(counters['zealux.node.executions{nodeId=a,processName=Traced,status=succeeded}']).toBe(1);
+        expect(counters['zealux.node.executions{nodeId=c,processName=Traced,status=failed}']).toBe(1);
+        expect(counters['zealux.node.attempts{nodeId=c,processName=Traced,status=failed}']).toBe(1);
+        expect(counters['zealux.process.executions{processName=Traced,status=failed}']).toBe(1);
+        expect(histograms['zealux.node.input_bytes{nodeId=b,processName=Traced,status=succeeded}']).toEqual({ count: 1, sum: 15, min: 15, max: 15 });
+        expect(histograms['zealux.node.duration_ms{nodeId=b,processName=Traced,status=succeeded}'].count).toBe(1);
+        expect(histograms['zealux.node.queue_ms{nodeId=b,processName=Traced,status=succeeded}'].count).toBe(1);
+        expect(histograms['zealux.node.output_bytes{nodeId=c,processName=Traced,status=failed}']).toBeUndefined();
+        expect(histograms['zealux.process.duration_ms{processName=Traced,status=failed}'].count).toBe(1);
+        expect(Object.keys(counters).some(key => key.includes('nodeId=d'))).toBe(false);
+    });
+
+    test('should export spans that follow the connections', async () => {
+        const tracer = Tracing.createMemoryExporter();
+        const traces: (Tracing.SpanContext | undefined)[] = [];
+        diamondProcess.phases.b.phase.execute = async (input: TestInput, context?: Phase.Context) => {
+            traces.push(context?.trace);
+            return { data: `B(${input.data})` };
+        };
+
+        const report = await executeProcess(diamondProcess, { data: 'x' }, { tracer });
+
+        const spans = Object.fromEntries(tracer.spans.map(span => [span.name, span]));
+        expect(tracer.spans.map(span => span.name)).toEqual(['a', 'b', 'c', 'd', 'Traced']);
+        expect(tracer.spans.every(span => span.traceId === report.traceId)).toBe(true);
+        expect(report.traceId).toMatch(/^[0-9a-f]{32}$/);
+        expect(spans.Traced.parentSpanId).toBeUndefined();
+        expect(spans.Traced.status).toEqual({ code: 'OK' });
+        expect(spans.Traced.attributes).toEqual({ 'zealux.process.name': 'Traced', 'zealux.run.id': report.runId, 'zealux.process.status': 'succeeded' });
+        expect(spans.a.parentSpanId).toBe(spans.Traced.spanId);
+        expect(spans.b.parentSpanId).toBe(spans.a.spanId);
+        expect(spans.c.parentSpanId).toBe(spans.a.spanId);
+        // The join is a child of the input that arrived last and linked to the other one
+        expect(spans.d.parentSpanId).toBe(spans.c.spanId);
+        expect(spans.d.links).toEqual([{ traceId: report.traceId, spanId: spans.b.spanId }]);
+        expect(spans.b).toEqual(expect.objectContaining({
+            kind: 'SPAN_KIND_INTERNAL',
+            startTimeUnixNano: expect.stringMatching(/^\d+$/),
+            endTimeUnixNano: expect.stringMatching(/^\d+$/),
+            status: { code: 'OK' },
+            attributes: expect.objectContaining({ 'zealux.node.id': 'b', 'zealux.phase.name': 'B', 'zealux.node.attempts': 1, 'zealux.node.iteration': 1 }),
+        }));
+        expect(traces).toEqual([{ traceId: report.traceId, spanId: spans.b.spanId }]);
+    });
+
+    test('should mark the spans of failed and cancelled nodes', async () => {
+        const tracer = Tracing.createMemoryExporter();
+        diamondProcess.phases.b.phase.execute = async () => { throw new Error('B failed'); };
+        const controller = new AbortController();
+        diamondProcess.phases.c.phase.execute = (input, context) => new Promise((resolve, reject) => {
+            context!.signal!.addEventListener('abort', () => reject(context!.signal!.reason));
+        });
+        setTimeout(() => controller.abort(), 20);
+
+        await executeProcess(diamondProcess, {}, { tracer, signal: controller.signal });
+
+        const spans = Object.fromEntries(tracer.spans.map(span => [span.name, span]));
+        expect(spans.b.status).toEqual({ code: 'ERROR', message: 'B failed' });
+        expect(spans.c.status).toEqual({ code: 'UNSET' });
+        expect(spans.Traced.status).toEqual({ code: 'UNSET' });
+        expect(spans.Traced.attributes['zealux.process.status']).toBe('cancelled');
+    });
+
+    test('should not record restored nodes', async () => {
+        const stateStore = StateStore.createMemoryStateStore();
+        diamondProcess.phases.c.phase.execute = async () => { throw new Error('C failed'); };
+        const first = await executeProcess(diamondProcess, { data: 'x' }, { stateStore });
+        diamondProcess.phases.c.phase.execute = async () => ({ data: 'C' });
+
+        const tracer = Tracing.createMemoryExporter();
+        const report = await executeProcess(diamondProcess, { data: 'x' }, { stateStore, runId: first.runId, resume: true, tracer });
+
+        expect(Object.keys(report.timings).sort()).toEqual(['c', 'd']);
+        expect(tracer.spans.map(span => span.name)).toEqual(['c', 'd', 'Traced']);
+    });
+
+    test('should log the errors of the metrics sink and the exporter without changing the outcome', async () => {
+        const logger = createMockLogger();
+        const broken = () => { throw new Error('Broken'); };
+        const metrics: Metrics.Sink = { increment: broken, record: broken };
+        const tracer: Tracing.Exporter = { export: broken };
+
+        const report = await executeProcess(diamondProcess, { data: 'x' }, { logger, metrics, tracer });
+
+        expect(report.success).toBe(true);
+        expect(report.nodeStatuses).toEqual({ a: 'succeeded', b: 'succeeded', c: 'succeeded', d: 'succeeded' });
+        expect(report.results.d).toEqual({ merged: { b: { data: 'B(A(x))' }, c: { data: 'C(A(x))' } } });
+        expect(logger.error).toHaveBeenCalledWith('Error recording metric zealux.node.executions', { processName: 'Traced', error: expect.any(Error) });
+        expect(logger.error).toHaveBeenCalledWith('Error recording metric zealux.process.duration_ms', { processName: 'Traced', error: expect.any(Error) });
+        expect(logger.error).toHaveBeenCalledWith('Error exporting span d', { processName: 'Traced', spanId: expect.any(String), error: expect.any(Error) });
+        expect(logger.error).toHaveBeenCalledWith('Error exporting span Traced', { processName: 'Traced', spanId: expect.any(String), error: expect.any(Error) });
+    });
+});
+
+describe('executeProcess with cached nodes', () => {
+    let cachedProcess: ProcessInstance;
+    let priceExecute: jest.MockedFunction<(input: Phase.Input) => Promise<Phase.Output>>;
+    let store: Cache.Store;
+
+    beforeEach(() => {
+        store = Cache.createMemoryCache();
+        priceExecute = jest.fn(async (input: Phase.Input): Promise<Phase.Output> => ({ price: (input.quantity as number) * 2 }));
+        // load -> price (cached) -> save
+        cachedProcess = {
+            name: 'Cached',
+            context: mockContext,
+            startPhaseId: 'load',
+            phases: {
+                load: { id: 'load', phase: { name: 'Load', execute: async (input) => input }, next: [{ targetPhaseNodeId: 'price' }] },
+                price: { id: 'price', phase: { name: 'Price', execute: priceExecute }, next: [{ targetPhaseNodeId: 'save' }], cache: { store } },
+                save: { id: 'save', phase: { name: 'Save', execute: async (input) => input }, next: [], isEndPhase: true },
+            },
+        };
+    });
+
+    test('should reuse the output of an earlier run for the same input', async () => {
+        const events = Events.createEmitter();
+        const successes: Events.NodeSuccessEvent[] = [];
+        events.on('node:success', event => successes.push(event));
+
+        const first = await executeProcess(cachedProcess, { quantity: 3 });
+        const second = await executeProcess(cachedProcess, { quantity: 3 }, { events });
+        await executeProcess(cachedProcess, { quantity: 4 });
+
+        expect(priceExecute).toHaveBeenCalledTimes(2);
+        expect(first.cacheHits).toEqual([]);
+        expect(second.cacheHits).toEqual(['price']);
+        expect(second.results).toEqual({ save: { price: 6 } });
+        expect(successes.find(event => event.nodeId === 'price')).toEqual(expect.objectContaining({ cached: true, attempts: 0, output: { price: 6 } }));
+        expect(successes.find(event => event.nodeId === 'save')!.cached).toBeUndefined();
+        expect(await store.get(Cache.keyOf('Cached/price', cachedProcess.phases.price.phase, { quantity: 3 }, { store }))).toEqual({
+            output: { price: 6 },
+            storedAt: expect.any(String),
+        });
+    });
+
+    test('should use custom keys, expire entries and run again after invalidation', async () => {
+        const cache: Cache.Options = { store, key: (input) => String(input.quantity), ttlMs: 60000 };
+        cachedProcess.phases.price.cache = cache;
+
+        await executeProcess(cachedProcess, { quantity: 3 });
+        const entry = await store.get('Cached/price:Price:3');
+        expect(Date.parse(entry!.expiresAt!) - Date.parse(entry!.storedAt)).toBe(60000);
+        await executeProcess(cachedProcess, { quantity: 3 });
+        expect(priceExecute).toHaveBeenCalledTimes(1);
+
+        await Cache.invalidate('Cached/price', cachedProcess.phases.price.phase, { quantity: 3 }, cache);
+        await executeProcess(cachedProcess, { quantity: 3 });
+        expect(priceExecute).toHaveBeenCalledTimes(2);
+
+        await store.set('Cached/price:Price:3', { ...entry!, expiresAt: new Date(Date.now() - 1).toISOString() });
+        const report = await executeProcess(cachedProcess, { quantity: 3 });
+        expect(priceExecute).toHaveBeenCalledTimes(3);
+        expect(report.cacheHits).toEqual([]);
+    });
+
+    test('should not cache failed executions', async () => {
+        priceExecute.mockRejectedValueOnce(new Error('Price service down'));
+
+        const failed = await executeProcess(cachedProcess, { quantity: 3 });
+        const retried = await executeProcess(cachedProcess, { quantity: 3 });
+
+        expect(failed.success).toBe(false);
+        expect(retried.success).toBe(true);
+        expect(retried.cacheHits).toEqual([]);
+        expect(priceExecute).toHaveBeenCalledTimes(2);
+    });
+
+    test('should run the phase when the cache fails', async () => {
+        const logger = createMockLogger();
+        cachedProcess.phases.price.cache = {
+            store: {
+                get: async () => { throw new Error('Cache offline'); },
+                set: async () => { throw new Error('Cache offline'); },
+                delete: async () => { },
+                clear: async () => { },
+            },
+        };
+
+        const report = await executeProcess(cachedProcess, { quantity: 3 }, { logger });
+
+        expect(report.success).toBe(true);
+        expect(priceExecute).toHaveBeenCalledTimes(1);
+        expect(logger.warn).toHaveBeenCalledWith('Error reading the cache of phase price', expect.objectContaining({ nodeId: 'price' }));
+        expect(logger.warn).toHaveBeenCalledWith('Error writing the cache of phase price', expect.objectContaining({ nodeId: 'price' }));
+    });
+
+    test('should run the phase without the cache when the key cannot be computed', async () => {
+        const logger = createMockLogger();
+        const cyclic: Record<string, unknown> = { quantity: 3 };
+        cyclic.self = cyclic;
+        cachedProcess.phases.reprice = {
+            id: 'reprice',
+            phase: cachedProcess.phases.price.phase,
+            next: [],
+            cache: { store, key: () => { throw new Error('No key'); } },
+        };
+        cachedProcess.phases.load.next.push({ targetPhaseNodeId: 'reprice' });
+        const setEntry = jest.spyOn(store, 'set');
+        priceExecute.mockImplementation(async () => ({ price: 6 }));
+
+        for (const input of [{ quantity: 1n }, cyclic, { quantity: new Set([3]) }]) {
+            const report = await executeProcess(cachedProcess, input, { logger });
+            expect(report.success).toBe(true);
+        }
+
+        expect(priceExecute).toHaveBeenCalledTimes(6);
+        expect(setEntry).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledWith('Error computing the cache key of phase price', expect.objectContaining({ nodeId: 'price', error: expect.any(TypeError) }));
+        expect(logger.warn).toHaveBeenCalledWith('Error computing the cache key of phase reprice', expect.objectContaining({ nodeId: 'reprice', error: new Error('No key') }));
+    });
+
+    test('should collect stream phases that cache instead of piping them', async () => {
+        const numbers = Phase.createStream('Numbers', async function* () { yield 1; yield 2; });
+        const sum = Phase.createStream('Sum', async function* (input: AsyncIterable<number>) {
+            let total = 0;
+            for await (const value of input) {
+                total += value;
+            }
+            yield total;
+        });
+        const streamProcess: ProcessInstance = {
+            name: 'Cached stream',
+            context: mockContext,
+            startPhaseId: 'numbers',
+            phases: {
+                numbers: { id: 'numbers', phase: numbers, next: [{ targetPhaseNodeId: 'sum' }], cache: { store } },
+                sum: { id: 'sum', phase: sum, next: [], isEndPhase: true },
+            },
+        };
+
+        await executeProcess(streamProcess, {});
+        const report = await executeProcess(streamProcess, {});
+
+        expect(report.cacheHits).toEqual(['numbers']);
+        expect(report.results).toEqual({ sum: { items: [3] } });
+    });
+
+    test('should keep the entries of nodes apart unless they share a namespace', async () => {
+        // load -> price, load -> reprice: two nodes of the same phase
+        cachedProcess.phases.load.next.push({ targetPhaseNodeId: 'reprice' });
+        cachedProcess.phases.reprice = { id: 'reprice', phase: cachedProcess.phases.price.phase, next: [], cache: { store } };
+
+        const separate = await executeProcess(cachedProcess, { quantity: 3 }, { concurrency: 1 });
+        expect(separate.cacheHits).toEqual([]);
+        expect(priceExecute).toHaveBeenCalledTimes(2);
+
+        await store.clear();
+        cachedProcess.phases.price.cache = { store, namespace: 'prices' };
+        cachedProcess.phases.reprice.cache = { store, namespace: 'prices' };
+        const shared = await executeProcess(cachedProcess, { quantity: 3 }, { concurrency: 1 });
+        expect(shared.cacheHits).toEqual(['reprice']);
+        expect(priceExecute).toHaveBeenCalledTimes(3);
+        expect(await store.get(Cache.keyOf('prices', cachedProcess.phases.price.phase, { quantity: 3 }, { store }))).toBeDefined();
+    });
+
+    test('should return errors for invalid cache settings', () => {
+        cachedProcess.phases.price.cache = { store, key: 'quantity' as any, ttlMs: 0, namespace: 1 as any };
+        cachedProcess.phases.save.cache = { store: {} as any };
+        expect(validateProcess(cachedProcess)).toEqual([
+            'PhaseNode "price" has an invalid cache key (should be a function).',
+            'PhaseNode "price" has an invalid cache ttlMs (should be a positive number).',
+            'PhaseNode "price" has an invalid cache namespace (should be a string).',
+            'PhaseNode "save" has an invalid cache (store should have get, set, delete and clear functions).',
+        ]);
+    });
+});
+
+describe('diagnoseProcess', () => {
+    let diagnosedProcess: ProcessInstance;
+    const phase = (name: string): Phase.Instance => ({ name, execute: async () => ({}) });
+
+    beforeEach(() => {
+        // load -> check -> save, check -> audit
+        diagnosedProcess = {
+            name: 'Diagnosed Process',
+            context: mockContext,
+            startPhaseId: 'load',
+            phases: {
+                load: { id: 'load', phase: phase('Load'), next: [{ targetPhaseNodeId: 'check' }] },
+                check: { id: 'check', phase: phase('Check'), next: [{ targetPhaseNodeId: 'save' }, { targetPhaseNodeId: 'audit' }] },
+                save: { id: 'save', phase: phase('Save'), next: [], isEndPhase: true },
+                audit: { id: 'audit', phase: phase('Audit'), next: [], isEndPhase: true },
+            },
+        };
+    });
+
+    test('should find nothing in a well-formed process', () => {
+        expect(diagnoseProcess(diagnosedProcess)).toEqual([]);
+    });
+
+    test('should return errors with their code and node', () => {
+        diagnosedProcess.phases.save.priority = Infinity;
+        diagnosedProcess.retry = { maxAttempts: 0 };
+
+        expect(diagnoseProcess(diagnosedProcess)).toEqual([
+            { code: 'invalid-retry', severity: 'error', message: 'Process has an invalid retry maxAttempts (should be an integer of at least 1).' },
+            { code: 'invalid-priority', severity: 'error', nodeId: 'save', message: 'PhaseNode "save" has an invalid priority (should be a finite number).' },
+        ]);
+    });
+
+    test('should warn about unreachable nodes, dead ends and end phases with connections', () => {
+        diagnosedProcess.phases.audit.isEndPhase = false;
+        diagnosedProcess.phases.check.isEndPhase = true;
+        diagnosedProcess.phases.orphan = { id: 'orphan', phase: phase('Orphan'), next: [{ targetPhaseNodeId: 'save' }] };
+
+        expect(diagnoseProcess(diagnosedProcess)).toEqual([
+            {
+                code: 'end-phase-with-connections',
+                severity: 'warning',
+                nodeId: 'check',
+                message: 'PhaseNode "check" is an end phase but has connections, so its output is both a result and passed on.',
+            },
+            { code: 'unreachable-node', severity: 'warning', nodeId: 'orphan', message: 'PhaseNode "orphan" cannot be reached from the start phase "load".' },
+            {
+                code: 'dead-end',
+                severity: 'warning',
+                nodeId: 'audit',
+                message: 'PhaseNode "audit" has no connections but is not an end phase, so its output is not a result.',
+            },
+        ]);
+        expect(validateProcess(diagnosedProcess)).toEqual([]);
+        expect(validateProcess(diagnosedProcess, { warningsAsErrors: true })).toHaveLength(3);
+    });
+
+    test('should not report dead ends when the process has no end phases', () => {
+        diagnosedProcess.phases.save.isEndPhase = false;
+        diagnosedProcess.phases.audit.isEndPhase = false;
+        expect(diagnoseProcess(diagnosedProcess)).toEqual([]);
+    });
+
+    test('should report cycles without an iteration cap on the first node of the cycle', () => {
+        diagnosedProcess.phases.save.next.push({ targetPhaseNodeId: 'check' });
+
+        expect(diagnoseProcess(diagnosedProcess)).toContainEqual(expect.objectContaining({ code: 'uncapped-cycle', severity: 'error', nodeId: 'check' }));
+    });
+
+    test('should let strict executions fail on warnings', async () => {
+        diagnosedProcess.phases.orphan = { id: 'orphan', phase: phase('Orphan'), next: [], isEndPhase: true };
+
+        expect((await executeProcess(diagnosedProcess, {})).success).toBe(true);
+        await expect(executeProcess(diagnosedProcess, {}, { strict: true }))
+            .rejects.toThrow('Invalid process definition:\nPhaseNode "orphan" cannot be reached from the start phase "load".');
+    });
+});
+
+describe('topologicalOrder', () => {
+    const phase: Phase.Instance = { name: 'Noop', execute: async () => ({}) };
+
+    test('should order every node after the nodes connected to it', () => {
+        // a -> c -> d, b -> c, a -> d
+        const orderedProcess: ProcessInstance = {
+            name: 'Ordered',
+            context: mockContext,
+            startPhaseId: 'a',
+            phases: {
+                d: { id: 'd', phase, next: [] },
+                c: { id: 'c', phase, next: [{ targetPhaseNodeId: 'd' }] },
+                a: { id: 'a', phase, next: [{ targetPhaseNodeId: 'c' }, { targetPhaseNodeId: 'd' }] },
+                b: { id: 'b', phase, next: [{ targetPhaseNodeId: 'c' }] },
+            },
+        };
+        expect(topologicalOrder(orderedProcess)).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    test('should throw for processes with a cycle', () => {
+        const loopProcess: ProcessInstance = {
+            name: 'Looping',
+            context: mockContext,
+            startPhaseId: 'a',
+            phases: {
+                a: { id: 'a', phase, next: [{ targetPhaseNodeId: 'b' }] },
+                b: { id: 'b', phase, next: [{ targetPhaseNodeId: 'a' }], maxIterations: 2 },
+            },
+        };
+        expect(() => topologicalOrder(loopProcess)).toThrow('Process "Looping" has no topological order because of the cycle through "a", "b".');
+    });
+
+    test('should ignore connections to missing nodes', () => {
+        const brokenProcess: ProcessInstance = {
+            name: 'Broken',
+            context: mockContext,
+            startPhaseId: 'a',
+            phases: {
+                b: { id: 'b', phase, next: [{ targetPhaseNodeId: 'missing' }] },
+                a: { id: 'a', phase, next: [{ targetPhaseNodeId: 'missing' }, { targetPhaseNodeId: 'b' }] },
+            },
+        };
+        expect(topologicalOrder(brokenProcess)).toEqual(['a', 'b']);
     });
 });
@@ -0,0 +1,294 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as Phase from '../src/phase';
+import { createRegistry, load, parse, read, Registry } from '../src/loader';
+import { executeProcess } from '../src/execution';
+
+const add = (options: Record<string, unknown>): Phase.Instance => ({
+    name: 'Add',
+    execute: async (input) => ({ value: (input.value as number) + (options.amount as number ?? 1) }),
+});
+
+const double = (): Phase.Instance => ({
+    name: 'Double',
+    execute: async (input) => ({ value: (input.value as number) * 2 }),
+});
+
+const YAML = `name: Arithmetic
+context:
+  owner: ops
+startPhaseId: first
+nodes:
+  first:
+    phase: Add
+    options:
+      amount: 5
+    next:
+      - second
+  second:
+    phase: Double
+    priority: 2
+    next:
+      - target: third
+        isDefault: true
+  third:
+    phase: Add
+    end: true
+`;
+
+describe('createRegistry', () => {
+    it('should register and return factories', () => {
+        const registry = createRegistry({ Add: add });
+        registry.register('Double', double);
+        expect(registry.get('Add')).toBe(add);
+        expect(registry.get('Double')).toBe(double);
+        expect(registry.get('Missing')).toBeUndefined();
+        expect(registry.names()).toEqual(['Add', 'Double']);
+    });
+
+    it('should throw when a name is registered twice', () => {
+        const registry = createRegistry({ Add: add });
+        expect(() => registry.register('Add', add)).toThrow('Phase "Add" is already registered.');
+    });
+});
+
+describe('read', () => {
+    let registry: Registry;
+
+    beforeEach(() => {
+        registry = createRegistry({ Add: add, Double: double });
+    });
+
+    it('should build a process from a YAML document', async () => {
+        const { process, errors } = read(YAML, registry);
+
+        expect(errors).toEqual([]);
+        expect(process!.name).toBe('Arithmetic');
+        expect(process!.context).toEqual({ owner: 'ops' });
+        expect(process!.startPhaseId).toBe('first');
+        expect(process!.retry).toBeUndefined();
+        expect(process!.phases.first.next).toEqual([{ targetPhaseNodeId: 'second' }]);
+        expect(process!.phases.second.priority).toBe(2);
+        expect(process!.phases.second.next).toEqual([{ targetPhaseNodeId: 'third', isDefault: true }]);
+        expect(process!.phases.third.isEndPhase).toBe(true);
+
+        // (1 + 5) * 2 + 1
+        const { results } = await executeProcess(process!, { value: 1 });
+        expect(results).toEqual({ third: { value: 13 } });
+    });
+
+    it('should build a process from a JSON document', () => {
+        const json = JSON.stringify({
+            name: 'Json',
+            startPhaseId: 'only',
+            retry: { maxAttempts: 2 },
+            maxIterations: 3,
+            nodes: { only: { phase: 'Double', end: true, join: { mode: 'any' }, maxIterations: 2 } },
+        }, null, 2);
+        const { process, errors } = read(json, registry);
+
+        expect(errors).toEqual([]);
+        expect(process!.context).toEqual({});
+        expect(process!.retry).toEqual({ maxAttempts: 2 });
+        expect(process!.maxIterations).toBe(3);
+        expect(process!.phases.only).toEqual({ id: 'only', phase: expect.any(Object), next: [], isEndPhase: true, join: { mode: 'any' }, maxIterations: 2 });
+    });
+
+    it('should report syntax errors with their line', () => {
+        const { process, errors } = read('name: Broken\nnodes:\n  first: [\n', registry);
+        expect(process).toBeUndefined();
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toMatch(/^Line 4: /);
+    });
+
+    it('should report a document that is not an object', () => {
+        expect(read('- a\n- b\n', registry).errors).toEqual(['Line 1: The document should be an object.']);
+    });
+
+    it('should report invalid process properties', () => {
+        const { errors } = read('name: 3\ncontext: none\nstartPhase: first\n', registry);
+        expect(errors).toEqual([
+            'Line 1: The process has an unknown property "startPhase".',
+            "Line 1: The process 'name' is missing or not a string.",
+            "Line 1: The process 'context' should be an object.",
+            "Line 1: The process 'nodes' are missing or not an object.",
+        ]);
+    });
+
+    it('should report invalid nodes on their line', () => {
+        const source = `name: Invalid
+startPhaseId: first
+nodes:
+  first:
+    phase: Add
+    options: 3
+    next: second
+  second:
+    phase: Missing
+    priorty: 1
+  third: nothing
+  fourth:
+    end: yes
+    next:
+      - 5
+`;
+        expect(read(source, registry).errors).toEqual([
+            `Line 4: Node "first" has invalid 'options' (should be an object).`,
+            `Line 4: Node "first" has an invalid 'next' (should be a list of connections).`,
+            'Line 8: Node "second" has an unknown property "priorty".',
+            'Line 8: Node "second" uses unknown phase "Missing" (registered phases: Add, Double).',
+            'Line 3: Node "third" should be an object.',
+            `Line 12: Node "fourth" is missing a 'phase' name.`,
+            `Line 12: Node "fourth" has an invalid 'end' (should be a boolean).`,
+            `Line 14: Node "fourth" has an invalid connection (should be a node id or an object with a 'target').`,
+        ]);
+    });
+
+    it('should report unknown connection properties on their line', () => {
+        const source = `name: Connections
+startPhaseId: first
+nodes:
+  first:
+    phase: Add
+    next:
+      - target: second
+        when: always
+  second:
+    phase: Add
+`;
+        expect(read(source, registry).errors).toEqual([
+            'Line 7: The connection from "first" to "second" has an unknown property "when".',
+        ]);
+    });
+
+    it('should report phases that cannot be created', () => {
+        registry.register('Failing', () => { throw new Error('missing credentials'); });
+        registry.register('Throwing', () => { throw 'no reason'; });
+        const source = 'name: Failing\nstartPhaseId: a\nnodes:\n  a:\n    phase: Failing\n  b:\n    phase: Throwing\n';
+        expect(read(source, createRegistry()).errors).toEqual([
+            'Line 4: Node "a" uses unknown phase "Failing" (registered phases: none).',
+            'Line 6: Node "b" uses unknown phase "Throwing" (registered phases: none).',
+        ]);
+        expect(read(source, registry).errors).toEqual([
+            'Line 4: Node "a" could not create phase "Failing": missing credentials',
+            'Line 6: Node "b" could not create phase "Throwing": no reason',
+        ]);
+    });
+
+    it('should return warnings on the line of their node', () => {
+        const source = `name: Warnings
+startPhaseId: first
+nodes:
+  first:
+    phase: Add
+    end: true
+  second:
+    phase: Add
+`;
+        const { process, errors, warnings } = read(source, registry);
+
+        expect(process).toBeDefined();
+        expect(errors).toEqual([]);
+        expect(warnings).toEqual([
+            'Line 7: PhaseNode "second" cannot be reached from the start phase "first".',
+            'Line 7: PhaseNode "second" has no connections but is not an end phase, so its output is not a result.',
+        ]);
+    });
+
+    it('should report validation errors on the line of their node', () => {
+        const source = `name: Validation
+startPhaseId: first
+retry: 3
+nodes:
+  first:
+    phase: Add
+    next:
+      - missing
+  second:
+    phase: Add
+    routing: random
+`;
+        expect(read(source, registry).errors).toEqual([
+            'Line 1: Process has an invalid retry policy (should be an object).',
+            'Line 5: PhaseNode "first" has a connection to non-existent targetPhaseNodeId "missing".',
+            'Line 9: PhaseNode "second" has an invalid routing (should be one of all, first).',
+        ]);
+    });
+});
+
+describe('read with forEach nodes', () => {
+    const registry = createRegistry({ Double: double });
+
+    it('should select the items by their property path', async () => {
+        const source = `name: Items
+startPhaseId: each
+nodes:
+  each:
+    phase: Double
+    end: true
+    forEach:
+      items: order.lines
+      concurrency: 2
+`;
+        const { process } = read(source, registry);
+
+        expect(process!.phases.each.forEach).toEqual({ items: expect.any(Function), concurrency: 2 });
+        const report = await executeProcess(process!, { order: { lines: [{ value: 1 }, { value: 2 }] } });
+        expect(report.results).toEqual({ each: { outputs: [{ value: 2 }, { value: 4 }], errors: [] } });
+        expect((await executeProcess(process!, {})).errors[0].error.message).toBe('The forEach items of phase each should be an array.');
+    });
+
+    it('should report invalid forEach settings on their line', () => {
+        const source = `name: Items
+startPhaseId: first
+nodes:
+  first:
+    phase: Double
+    next:
+      - second
+    forEach:
+      items: lines
+      limit: 2
+  second:
+    phase: Double
+    forEach: lines
+`;
+        expect(read(source, registry).errors).toEqual([
+            'Line 8: The forEach of node "first" has an unknown property "limit".',
+            `Line 11: Node "second" has an invalid 'forEach' (should be an object with an 'items' property path).`,
+        ]);
+    });
+});
+
+describe('parse', () => {
+    const registry = createRegistry({ Add: add, Double: double });
+
+    it('should return the process', () => {
+        expect(parse(YAML, registry).name).toBe('Arithmetic');
+    });
+
+    it('should throw with every error', () => {
+        expect(() => parse('name: Empty\n', registry))
+            .toThrow("Invalid process definition:\nLine 1: The process 'nodes' are missing or not an object.");
+    });
+});
+
+describe('load', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'zealux-loader-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should read the process from a file', async () => {
+        const path = join(directory, 'process.yaml');
+        await writeFile(path, YAML);
+        const process = await load(path, createRegistry({ Add: add, Double: double }));
+        expect(Object.keys(process.phases)).toEqual(['first', 'second', 'third']);
+    });
+});
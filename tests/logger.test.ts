@@ -0,0 +1,35 @@
+import { jest } from '@jest/globals';
+import { createConsoleLogger, createSilentLogger } from '../src/logger';
+
+describe('Logger', () => {
+    describe('createSilentLogger', () => {
+        it('should not write anything to the console', () => {
+            const consoleSpies = (['debug', 'info', 'warn', 'error'] as const).map(level => jest.spyOn(console, level).mockImplementation(() => { }));
+            const logger = createSilentLogger();
+
+            logger.debug('debug message');
+            logger.info('info message');
+            logger.warn('warn message', { nodeId: 'node1' });
+            logger.error('error message', { nodeId: 'node1' });
+
+            for (const spy of consoleSpies) {
+                expect(spy).not.toHaveBeenCalled();
+                spy.mockRestore();
+            }
+        });
+    });
+
+    describe('createConsoleLogger', () => {
+        it.each(['debug', 'info', 'warn', 'error'] as const)('should write %s messages with their fields to the console', (level) => {
+            const consoleSpy = jest.spyOn(console, level).mockImplementation(() => { });
+            const logger = createConsoleLogger();
+
+            logger[level]('message', { processName: 'Test Process', nodeId: 'node1' });
+            logger[level]('message without fields');
+
+            expect(consoleSpy).toHaveBeenCalledWith('message', { processName: 'Test Process', nodeId: 'node1' });
+            expect(consoleSpy).toHaveBeenCalledWith('message without fields');
+            consoleSpy.mockRestore();
+        });
+    });
+});
@@ -0,0 +1,34 @@
+import { createMemorySink, keyOf } from '../src/metrics';
+
+describe('Metrics', () => {
+    it('should key metrics by name and sorted attributes', () => {
+        expect(keyOf('zealux.node.executions', { status: 'failed', nodeId: 'a' })).toBe('zealux.node.executions{nodeId=a,status=failed}');
+        expect(keyOf('jobs', {})).toBe('jobs');
+    });
+
+    describe('createMemorySink', () => {
+        it('should add up counters and aggregate histograms', () => {
+            const sink = createMemorySink();
+            sink.increment('runs', 1, { ok: true });
+            sink.increment('runs', 2, { ok: true });
+            sink.record('duration_ms', 5, {});
+            sink.record('duration_ms', 2, {});
+            sink.record('duration_ms', 8, {});
+
+            expect(sink.snapshot()).toEqual({
+                counters: { 'runs{ok=true}': 3 },
+                histograms: { duration_ms: { count: 3, sum: 15, min: 2, max: 8 } },
+            });
+        });
+
+        it('should return snapshots that do not change with later measurements', () => {
+            const sink = createMemorySink();
+            sink.increment('runs', 1, {});
+            const snapshot = sink.snapshot();
+            sink.increment('runs', 1, {});
+
+            expect(snapshot.counters.runs).toBe(1);
+            expect(sink.snapshot().counters.runs).toBe(2);
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import { isPhase, Instance, Input, Output } from '../src/phase';
+import { createStream, isPhase, isStreamPhase, Instance, Input, Output } from '../src/phase';
 
 describe('Phase', () => {
     describe('isPhase', () => {
@@ -58,4 +58,23 @@ describe('Phase', () => {
             expect(isPhase({})).toBe(false);
         });
     });
+
+    describe('createStream', () => {
+        const countTo = createStream('CountTo', async function* (input: { to: number }) {
+            for (let value = 1; value <= input.to; value++) {
+                yield value;
+            }
+        });
+
+        it('should create a stream phase whose execute collects the items', async () => {
+            expect(countTo.name).toBe('CountTo');
+            expect(await countTo.execute({ to: 3 })).toEqual({ items: [1, 2, 3] });
+        });
+
+        it('should recognise stream phases', () => {
+            expect(isStreamPhase(countTo)).toBe(true);
+            expect(isStreamPhase({ name: 'Plain', execute: async () => ({}) })).toBe(false);
+            expect(isStreamPhase({ name: 'Partial', stream: countTo.stream })).toBe(false);
+        });
+    });
 });
@@ -0,0 +1,120 @@
+import { jest } from '@jest/globals';
+import * as Phase from '../src/phase';
+import { Instance as ProcessInstance } from '../src/process';
+import { planProcess } from '../src/plan';
+import { createMemoryCache } from '../src/cache';
+
+describe('Plan', () => {
+    let execute: jest.MockedFunction<Phase.Instance['execute']>;
+    let orderProcess: ProcessInstance;
+
+    beforeEach(() => {
+        execute = jest.fn(async () => ({}));
+        const phase = (name: string): Phase.Instance => ({ name, execute });
+        // load -> check -> approve (condition) | review (default), load -> audit (transform)
+        orderProcess = {
+            name: 'Orders',
+            context: {},
+            startPhaseId: 'load',
+            phases: {
+                load: {
+                    id: 'load',
+                    phase: phase('Load'),
+                    next: [{ targetPhaseNodeId: 'check' }, { targetPhaseNodeId: 'audit', transform: (output) => ({ audited: output.id }) }],
+                },
+                check: {
+                    id: 'check',
+                    phase: phase('Check'),
+                    next: [
+                        { targetPhaseNodeId: 'approve', condition: (output) => output.total as number < 100 },
+                        { targetPhaseNodeId: 'review', isDefault: true },
+                    ],
+                },
+                approve: { id: 'approve', phase: phase('Approve'), next: [], isEndPhase: true },
+                review: { id: 'review', phase: phase('Review'), next: [], isEndPhase: true },
+                audit: { id: 'audit', phase: phase('Audit'), next: [], isEndPhase: true, retry: { maxAttempts: 3, delayMs: 1000 } },
+            },
+        };
+    });
+
+    it('should follow the connections the stub outputs take without executing phases', async () => {
+        const plan = await planProcess(orderProcess, { id: 'o-1' }, { outputs: { check: { total: 250 } } });
+
+        expect(execute).not.toHaveBeenCalled();
+        expect(plan.processName).toBe('Orders');
+        expect(plan.order).toEqual(['load', 'check', 'audit', 'review']);
+        expect(plan.skipped).toEqual(['approve']);
+        expect(plan.endPhases).toEqual(['review', 'audit']);
+        expect(plan.errors).toEqual([]);
+        expect(plan.steps).toEqual([
+            { nodeId: 'load', iteration: 1, input: { id: 'o-1' }, output: { id: 'o-1' } },
+            { nodeId: 'check', iteration: 1, input: { id: 'o-1' }, output: { total: 250 } },
+            { nodeId: 'audit', iteration: 1, input: { audited: 'o-1' }, output: { audited: 'o-1' } },
+            { nodeId: 'review', iteration: 1, input: { total: 250 }, output: { total: 250 } },
+        ]);
+        expect(plan.results).toEqual({ review: { total: 250 }, audit: { audited: 'o-1' } });
+    });
+
+    it('should compute stubs from the input and record loop iterations and items', async () => {
+        // lines (forEach) -> retry loop until done
+        const loopProcess: ProcessInstance = {
+            name: 'Loop',
+            context: {},
+            startPhaseId: 'lines',
+            phases: {
+                lines: { id: 'lines', phase: { name: 'Line', execute }, next: [{ targetPhaseNodeId: 'poll' }], forEach: { items: (input) => input.lines } },
+                poll: {
+                    id: 'poll',
+                    phase: { name: 'Poll', execute },
+                    next: [{ targetPhaseNodeId: 'poll', condition: (output) => !output.done }],
+                    maxIterations: 5,
+                },
+            },
+        };
+
+        const plan = await planProcess(loopProcess, { lines: ['a', 'b'] }, {
+            outputs: {
+                lines: (input) => ({ sku: input }),
+                poll: (input, context) => ({ done: context.iteration === 3 }),
+            },
+        });
+
+        expect(plan.steps.map(({ nodeId, iteration, item }) => [nodeId, iteration, item])).toEqual([
+            ['lines', 1, 0],
+            ['lines', 1, 1],
+            ['poll', 1, undefined],
+            ['poll', 2, undefined],
+            ['poll', 3, undefined],
+        ]);
+        expect(plan.steps[2].input).toEqual({ outputs: [{ sku: 'a' }, { sku: 'b' }], errors: [] });
+        expect(plan.order).toEqual(['lines', 'poll']);
+    });
+
+    it('should report failing transforms and stubs', async () => {
+        orderProcess.phases.load.next[1].transform = () => { throw new Error('No id'); };
+
+        const plan = await planProcess(orderProcess, {}, { outputs: { check: () => { throw new Error('Check failed'); } } });
+
+        expect(plan.errors.map(({ nodeId, error }) => [nodeId, error.message]).sort()).toEqual([['audit', 'No id'], ['check', 'Check failed']]);
+        expect(plan.order).toEqual(['load']);
+        expect(plan.skipped).toEqual(['approve', 'review']);
+        expect(plan.endPhases).toEqual([]);
+    });
+
+    it('should neither read nor fill caches', async () => {
+        const store = createMemoryCache();
+        const set = jest.spyOn(store, 'set');
+        const get = jest.spyOn(store, 'get');
+        orderProcess.phases.check.cache = { store };
+
+        await planProcess(orderProcess, {});
+
+        expect(get).not.toHaveBeenCalled();
+        expect(set).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid processes', async () => {
+        orderProcess.startPhaseId = 'missing';
+        await expect(planProcess(orderProcess, {})).rejects.toThrow('Invalid process definition');
+    });
+});
@@ -1,7 +1,8 @@
 import * as PhaseNode from '../src/phasenode';
 import * as Process from '../src/process';
 import { Instance } from '../src/process';
-import { isProcess } from '../src/process';
+import { define, isProcess } from '../src/process';
+import * as Phase from '../src/phase';
 
 describe('isProcess', () => {
     const validContext: Process.Context = {};
@@ -80,3 +81,83 @@ describe('isProcess', () => {
         expect(isProcess({})).toBe(false);
     });
 });
+
+describe('define', () => {
+    interface Count { value: number }
+    interface Message { text: string }
+
+    const addOne: Phase.Instance<Count, Count> = {
+        name: 'AddOne',
+        execute: async (input) => ({ value: input.value + 1 }),
+    };
+    const describeCount: Phase.Instance<Message, Message> = {
+        name: 'Describe',
+        execute: async (input) => ({ text: `Result: ${input.text}` }),
+    };
+
+    it('should build a process whose node ids are the phase keys', () => {
+        const condition = (output: Count) => output.value > 0;
+        const process = define({
+            name: 'Typed',
+            phases: { add: addOne, again: addOne, describe: describeCount },
+            startPhaseId: 'add',
+            next: {
+                add: [{ target: 'again', condition }],
+                again: [{ target: 'describe', transform: (output) => ({ text: String(output.value) }), isDefault: true }],
+            },
+            nodes: { describe: { isEndPhase: true }, again: { priority: 2 } },
+        });
+
+        expect(isProcess(process)).toBe(true);
+        expect(process.context).toEqual({});
+        expect(process.retry).toBeUndefined();
+        expect(process.startPhaseId).toBe('add');
+        expect(process.phases.add).toEqual({ id: 'add', phase: addOne, next: [{ targetPhaseNodeId: 'again', condition }] });
+        expect(process.phases.again.priority).toBe(2);
+        expect(process.phases.again.next[0].targetPhaseNodeId).toBe('describe');
+        expect(process.phases.again.next[0].isDefault).toBe(true);
+        expect(process.phases.again.next[0].transform!({ value: 3 })).toEqual({ text: '3' });
+        expect(process.phases.describe).toEqual({ id: 'describe', phase: describeCount, next: [], isEndPhase: true });
+    });
+
+    it('should keep the context, retry policy and iteration cap', () => {
+        const process = define({
+            name: 'Typed',
+            context: { tenant: 'a' },
+            retry: { maxAttempts: 2 },
+            maxIterations: 3,
+            phases: { add: addOne },
+            startPhaseId: 'add',
+        });
+        expect(process.context).toEqual({ tenant: 'a' });
+        expect(process.retry).toEqual({ maxAttempts: 2 });
+        expect(process.maxIterations).toBe(3);
+    });
+
+    it('should reject mismatched connections at compile time', () => {
+        const build = () => define({
+            name: 'Mismatched',
+            phases: { add: addOne, describe: describeCount },
+            startPhaseId: 'add',
+            next: {
+                // @ts-expect-error the output of add does not fit the input of describe
+                add: [{ target: 'describe' }],
+                // @ts-expect-error the transform must produce the input of add
+                describe: [{ target: 'add', transform: (output) => ({ text: output.text }) }],
+            },
+        });
+        expect(isProcess(build())).toBe(true);
+    });
+
+    it('should reject unknown targets and start phases at compile time', () => {
+        const build = () => define({
+            name: 'Unknown',
+            phases: { add: addOne },
+            // @ts-expect-error missing is not a phase of the definition
+            startPhaseId: 'missing',
+            // @ts-expect-error missing is not a phase of the definition
+            next: { add: [{ target: 'missing' }] },
+        });
+        expect(build().phases.add.next[0].targetPhaseNodeId).toBe('missing');
+    });
+});
@@ -0,0 +1,211 @@
+import { jest } from '@jest/globals';
+import { execute, getDelay, isPolicy, validatePolicy, Attempt, Policy } from '../src/retry';
+
+describe('Retry', () => {
+    describe('isPolicy', () => {
+        it('should return true for an object', () => {
+            expect(isPolicy({ maxAttempts: 3 })).toBe(true);
+        });
+
+        it('should return false for null, undefined and primitives', () => {
+            expect(isPolicy(null)).toBe(false);
+            expect(isPolicy(undefined)).toBe(false);
+            expect(isPolicy(3)).toBe(false);
+        });
+    });
+
+    describe('validatePolicy', () => {
+        it('should return no errors for a valid policy', () => {
+            const policy: Policy = {
+                maxAttempts: 3,
+                backoff: 'exponential',
+                delayMs: 10,
+                maxDelayMs: 100,
+                jitter: true,
+                timeoutMs: 1000,
+                deadlineMs: 5000,
+                retryable: () => true,
+            };
+            expect(validatePolicy(policy, 'Node')).toEqual([]);
+        });
+
+        it('should return an error if the policy is not an object', () => {
+            expect(validatePolicy('always', 'Node')).toEqual(['Node has an invalid retry policy (should be an object).']);
+        });
+
+        it('should return errors for invalid fields', () => {
+            const errors = validatePolicy({
+                maxAttempts: 0,
+                backoff: 'linear',
+                delayMs: -1,
+                timeoutMs: 'soon',
+                deadlineMs: NaN,
+                retryable: true,
+            }, 'Node');
+            expect(errors).toEqual([
+                'Node has an invalid retry maxAttempts (should be an integer of at least 1).',
+                'Node has an invalid retry backoff (should be one of fixed, exponential).',
+                'Node has an invalid retry delayMs (should be a non-negative number).',
+                'Node has an invalid retry timeoutMs (should be a non-negative number).',
+                'Node has an invalid retry deadlineMs (should be a non-negative number).',
+                'Node has an invalid retry retryable (should be a function).',
+            ]);
+        });
+    });
+
+    describe('getDelay', () => {
+        it('should return zero without a delay', () => {
+            expect(getDelay({}, 1)).toBe(0);
+        });
+
+        it('should return the same delay for fixed backoff', () => {
+            expect(getDelay({ delayMs: 50 }, 1)).toBe(50);
+            expect(getDelay({ delayMs: 50 }, 4)).toBe(50);
+        });
+
+        it('should double the delay for exponential backoff up to maxDelayMs', () => {
+            const policy: Policy = { backoff: 'exponential', delayMs: 50, maxDelayMs: 300 };
+            expect(getDelay(policy, 1)).toBe(50);
+            expect(getDelay(policy, 2)).toBe(100);
+            expect(getDelay(policy, 3)).toBe(200);
+            expect(getDelay(policy, 4)).toBe(300);
+        });
+
+        it('should pick a random delay below the computed delay with jitter', () => {
+            expect(getDelay({ delayMs: 100, jitter: true }, 1, () => 0.25)).toBe(25);
+            const delay = getDelay({ delayMs: 100, jitter: true }, 1);
+            expect(delay).toBeGreaterThanOrEqual(0);
+            expect(delay).toBeLessThan(100);
+        });
+    });
+
+    describe('execute', () => {
+        it('should return the result of the first successful attempt', async () => {
+            const attempts: Attempt[] = [];
+            const result = await execute(async () => 'done', {}, attempt => attempts.push(attempt));
+
+            expect(result).toBe('done');
+            expect(attempts).toEqual([{ attempt: 1, startedAt: expect.any(Date), endedAt: expect.any(Date) }]);
+        });
+
+        it('should retry failed attempts up to maxAttempts', async () => {
+            const error = new Error('transient');
+            const fn = jest.fn(async (attempt: number) => {
+                if (attempt < 3) {
+                    throw error;
+                }
+                return attempt;
+            });
+            const attempts: Attempt[] = [];
+
+            const result = await execute(fn, { maxAttempts: 3, backoff: 'exponential', delayMs: 1 }, attempt => attempts.push(attempt));
+
+            expect(result).toBe(3);
+            expect(fn).toHaveBeenCalledTimes(3);
+            expect(attempts.map(attempt => [attempt.attempt, attempt.error])).toEqual([[1, error], [2, error], [3, undefined]]);
+        });
+
+        it('should throw the last error when all attempts fail', async () => {
+            const fn = jest.fn(async (attempt: number) => { throw new Error(`failure ${attempt}`); });
+
+            await expect(execute(fn, { maxAttempts: 2 })).rejects.toThrow('failure 2');
+            expect(fn).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not retry errors that are not retryable', async () => {
+            const fn = jest.fn(async () => { throw new Error('permanent'); });
+            const retryable = jest.fn(() => false);
+
+            await expect(execute(fn, { maxAttempts: 5, retryable })).rejects.toThrow('permanent');
+            expect(fn).toHaveBeenCalledTimes(1);
+            expect(retryable).toHaveBeenCalledWith(expect.any(Error), 1);
+        });
+
+        it('should time out attempts that take longer than timeoutMs', async () => {
+            const fn = jest.fn((attempt: number) => new Promise<number>(resolve => setTimeout(() => resolve(attempt), attempt === 1 ? 200 : 0)));
+
+            const result = await execute(fn, { maxAttempts: 2, timeoutMs: 20 });
+
+            expect(result).toBe(2);
+        });
+
+        it('should report the timeout as the attempt error', async () => {
+            const fn = () => new Promise<number>(resolve => setTimeout(() => resolve(1), 200));
+
+            await expect(execute(fn, { timeoutMs: 10 })).rejects.toThrow('Attempt 1 timed out after 10ms.');
+        });
+
+        it('should abort the signal of an attempt that timed out', async () => {
+            const signals: AbortSignal[] = [];
+            const fn = jest.fn((attempt: number, signal?: AbortSignal) => {
+                signals.push(signal!);
+                return new Promise<number>(resolve => setTimeout(() => resolve(attempt), attempt === 1 ? 200 : 0));
+            });
+
+            await execute(fn, { maxAttempts: 2, timeoutMs: 20 });
+
+            expect(signals[0].aborted).toBe(true);
+            expect(signals[0].reason.message).toBe('Attempt 1 timed out after 20ms.');
+            expect(signals[1].aborted).toBe(false);
+        });
+
+        it('should abort the signal of the current attempt with the reason of the outer signal', async () => {
+            const controller = new AbortController();
+            let attemptSignal: AbortSignal | undefined;
+            const fn = (_: number, signal?: AbortSignal) => {
+                attemptSignal = signal;
+                return new Promise<number>(() => { });
+            };
+            setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+            await expect(execute(fn, {}, undefined, controller.signal)).rejects.toThrow('cancelled');
+            expect(attemptSignal!.reason.message).toBe('cancelled');
+        });
+
+        it('should pass no signal without a time limit or outer signal', async () => {
+            const fn = jest.fn(async (_: number, signal?: AbortSignal) => signal);
+            expect(await execute(fn, {})).toBeUndefined();
+        });
+
+        it('should stop retrying once the deadline has passed', async () => {
+            const fn = jest.fn(() => new Promise<number>(resolve => setTimeout(() => resolve(1), 200)));
+
+            await expect(execute(fn, { maxAttempts: 10, deadlineMs: 30 })).rejects.toThrow('Attempt 1 exceeded the retry deadline of 30ms.');
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not wait for a retry that would start after the deadline', async () => {
+            const fn = jest.fn(async () => { throw new Error('transient'); });
+
+            await expect(execute(fn, { maxAttempts: 10, delayMs: 1000, deadlineMs: 500, timeoutMs: 100 })).rejects.toThrow('transient');
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should not start an attempt when the signal is already aborted', async () => {
+            const controller = new AbortController();
+            controller.abort(new Error('cancelled'));
+            const fn = jest.fn(async () => 1);
+
+            await expect(execute(fn, {}, undefined, controller.signal)).rejects.toThrow('cancelled');
+            expect(fn).not.toHaveBeenCalled();
+        });
+
+        it('should abandon the current attempt without retrying when the signal is aborted', async () => {
+            const controller = new AbortController();
+            const fn = jest.fn(() => new Promise<number>(resolve => setTimeout(() => resolve(1), 200)));
+            setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+            await expect(execute(fn, { maxAttempts: 3 }, undefined, controller.signal)).rejects.toThrow('cancelled');
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+
+        it('should stop waiting between attempts when the signal is aborted', async () => {
+            const controller = new AbortController();
+            const fn = jest.fn(async () => { throw new Error('transient'); });
+            setTimeout(() => controller.abort(new Error('cancelled')), 10);
+
+            await expect(execute(fn, { maxAttempts: 3, delayMs: 1000 }, undefined, controller.signal)).rejects.toThrow('cancelled');
+            expect(fn).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+import { assertValid, compare, create, formatIssues, isJsonValidator, isValidationError, isValidator, JsonSchema } from '../src/schema';
+
+const order: JsonSchema = {
+    type: 'object',
+    required: ['id', 'lines'],
+    properties: {
+        id: { type: 'string', minLength: 3, maxLength: 5, pattern: '^o-' },
+        status: { enum: ['open', 'closed'] },
+        lines: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['sku'],
+                properties: { sku: { type: 'string' }, quantity: { type: 'integer', minimum: 1, maximum: 10 } },
+                additionalProperties: false,
+            },
+        },
+        note: { type: ['string', 'null'] },
+        price: { type: 'number' },
+    },
+};
+
+describe('Schema', () => {
+    describe('create', () => {
+        const validator = create(order);
+
+        it('should accept valid values', () => {
+            expect(validator.schema).toBe(order);
+            expect(validator.validate({ id: 'o-1', status: 'open', lines: [{ sku: 'a', quantity: 2 }], note: null, price: 2 })).toEqual([]);
+        });
+
+        it('should report every issue with its path', () => {
+            expect(validator.validate({ id: 'x', status: 'lost', lines: [{ quantity: 0 }, { sku: 'b', quantity: 11, color: 'red' }], note: 1, price: 'free' })).toEqual([
+                { path: 'id', message: 'should have at least 3 characters' },
+                { path: 'id', message: 'should match ^o-' },
+                { path: 'status', message: 'should be one of "open", "closed"' },
+                { path: 'lines[0].sku', message: 'is required' },
+                { path: 'lines[0].quantity', message: 'should be at least 1' },
+                { path: 'lines[1].quantity', message: 'should be at most 10' },
+                { path: 'lines[1].color', message: 'is not allowed' },
+                { path: 'note', message: 'should be a string or a null' },
+                { path: 'price', message: 'should be a number' },
+            ]);
+            expect(validator.validate({ id: 'o-123456', lines: [1.5] })).toEqual([
+                { path: 'id', message: 'should have at most 5 characters' },
+                { path: 'lines[0]', message: 'should be an object' },
+            ]);
+        });
+
+        it('should check the type of the value itself', () => {
+            expect(validator.validate([])).toEqual([{ path: '', message: 'should be an object' }]);
+            expect(create({ type: 'boolean' }).validate(true)).toEqual([]);
+            expect(create({}).validate('anything')).toEqual([]);
+        });
+    });
+
+    describe('compare', () => {
+        it('should accept a source that guarantees what the target expects', () => {
+            const source: JsonSchema = { type: 'object', required: ['id', 'lines', 'extra'], properties: { id: { type: 'string' }, lines: { type: 'array', items: { type: 'integer' } } } };
+            const target: JsonSchema = { type: 'object', required: ['id'], properties: { id: { type: 'string' }, lines: { type: 'array', items: { type: 'number' } } } };
+            expect(compare(source, target)).toEqual([]);
+        });
+
+        it('should report types, values and properties that may not fit', () => {
+            const source: JsonSchema = {
+                type: 'object',
+                required: ['status'],
+                properties: { id: { type: 'number' }, status: { enum: ['open', 'lost'] }, lines: { items: { type: 'string' } } },
+            };
+            const target: JsonSchema = {
+                type: 'object',
+                required: ['id'],
+                properties: { id: { type: 'string' }, status: { enum: ['open'] }, lines: { items: { type: 'object' } }, note: { type: 'string' } },
+            };
+            expect(compare(source, target)).toEqual([
+                { path: 'id', message: 'is required but not guaranteed' },
+                { path: 'id', message: 'is number but should be string' },
+                { path: 'status', message: 'can be "lost" which is not allowed' },
+                { path: 'lines[]', message: 'is string but should be object' },
+            ]);
+        });
+
+        it('should assume that a source without types or required keys fits', () => {
+            const target: JsonSchema = { type: 'object', required: ['id'], properties: { id: { type: 'string' } } };
+            expect(compare({ type: 'object' }, target)).toEqual([]);
+            expect(compare({ properties: { id: {} } }, target)).toEqual([]);
+            expect(compare({ type: 'object', required: [] }, target)).toEqual([{ path: 'id', message: 'is required but not guaranteed' }]);
+        });
+    });
+
+    describe('assertValid', () => {
+        it('should throw a validation error with the issues', () => {
+            const validator = create({ type: 'object', required: ['id'] });
+            let error: any;
+            try {
+                assertValid(validator, {}, 'Invalid order');
+            } catch (thrown) {
+                error = thrown;
+            }
+            expect(error.message).toBe('Invalid order: id is required.');
+            expect(isValidationError(error)).toBe(true);
+            expect(error.issues).toEqual([{ path: 'id', message: 'is required' }]);
+        });
+
+        it('should accept valid values and missing validators', () => {
+            expect(() => assertValid(create({ type: 'string' }), 'a', 'Invalid')).not.toThrow();
+            expect(() => assertValid(undefined, 1, 'Invalid')).not.toThrow();
+        });
+    });
+
+    it('should format issues of the value itself', () => {
+        expect(formatIssues([{ path: '', message: 'should be an object' }, { path: 'id', message: 'is required' }]))
+            .toBe('value should be an object; id is required');
+    });
+
+    it('should recognise validators and validation errors', () => {
+        const custom = { validate: () => [] };
+        expect(isValidator(custom)).toBe(true);
+        expect(isValidator(null)).toBe(false);
+        expect(isJsonValidator(custom)).toBe(false);
+        expect(isJsonValidator(create({}))).toBe(true);
+        expect(isValidationError(new Error('failed'))).toBe(false);
+    });
+});
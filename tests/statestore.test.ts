@@ -0,0 +1,99 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFileStateStore, createMemoryStateStore, Instance } from '../src/statestore';
+
+const updatedAt = '2025-05-01T10:00:00.000Z';
+
+describe('StateStore', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'zealux-state-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    const stores: [string, () => Instance][] = [
+        ['createMemoryStateStore', () => createMemoryStateStore()],
+        ['createFileStateStore', () => createFileStateStore(join(directory, 'runs'))],
+    ];
+
+    describe.each(stores)('%s', (_, createStore) => {
+        it('should return undefined for an unknown run', async () => {
+            expect(await createStore().load('unknown')).toBeUndefined();
+        });
+
+        it('should save node states under the run id', async () => {
+            const store = createStore();
+            await store.start('run-1', 'Orders');
+            await store.saveNode('run-1', 'load', { status: 'succeeded', output: { count: 2 }, updatedAt });
+            await store.saveNode('run-1', 'save', { status: 'failed', updatedAt });
+
+            expect(await store.load('run-1')).toEqual({
+                runId: 'run-1',
+                processName: 'Orders',
+                nodes: {
+                    load: { status: 'succeeded', output: { count: 2 }, updatedAt },
+                    save: { status: 'failed', updatedAt },
+                },
+            });
+        });
+
+        it('should keep concurrent node updates', async () => {
+            const store = createStore();
+            await store.start('run-1', 'Orders');
+            await Promise.all(['a', 'b', 'c'].map(nodeId => store.saveNode('run-1', nodeId, { status: 'succeeded', output: {}, updatedAt })));
+            expect(Object.keys((await store.load('run-1'))!.nodes).sort()).toEqual(['a', 'b', 'c']);
+        });
+
+        it('should replace the state when a run starts again', async () => {
+            const store = createStore();
+            await store.start('run-1', 'Orders');
+            await store.saveNode('run-1', 'load', { status: 'succeeded', output: {}, updatedAt });
+            await store.start('run-1', 'Orders');
+            expect((await store.load('run-1'))!.nodes).toEqual({});
+        });
+
+        it('should not share saved objects with the caller', async () => {
+            const store = createStore();
+            await store.start('run-1', 'Orders');
+            const output = { items: ['a'] };
+            await store.saveNode('run-1', 'load', { status: 'succeeded', output, updatedAt });
+            output.items.push('b');
+            const loaded = await store.load('run-1');
+            loaded!.nodes.load.status = 'failed';
+
+            expect((await store.load('run-1'))!.nodes.load).toEqual({ status: 'succeeded', output: { items: ['a'] }, updatedAt });
+        });
+
+        it('should throw when saving a node of a run that was not started', async () => {
+            await expect(createStore().saveNode('unknown', 'load', { status: 'failed', updatedAt }))
+                .rejects.toThrow('No saved state for run "unknown".');
+        });
+    });
+
+    describe('createFileStateStore', () => {
+        it('should write one file per run with an encoded name', async () => {
+            const store = createFileStateStore(directory);
+            await store.start('nightly/2025-05-01', 'Orders');
+            expect(await readdir(directory)).toEqual(['nightly%2F2025-05-01.json']);
+            expect(JSON.parse(await readFile(join(directory, 'nightly%2F2025-05-01.json'), 'utf8')))
+                .toEqual({ runId: 'nightly/2025-05-01', processName: 'Orders', nodes: {} });
+        });
+
+        it('should report files that cannot be read', async () => {
+            await writeFile(join(directory, 'broken.json'), '{ not json');
+            await expect(createFileStateStore(directory).load('broken')).rejects.toThrow(SyntaxError);
+        });
+
+        it('should keep working after a failed operation', async () => {
+            const store = createFileStateStore(directory);
+            await expect(store.saveNode('unknown', 'load', { status: 'failed', updatedAt })).rejects.toThrow();
+            await store.start('run-1', 'Orders');
+            expect(await store.load('run-1')).toEqual({ runId: 'run-1', processName: 'Orders', nodes: {} });
+        });
+    });
+});
@@ -0,0 +1,183 @@
+import { jest } from '@jest/globals';
+import * as Events from '../src/events';
+import * as Logger from '../src/logger';
+import * as Phase from '../src/phase';
+import { executeProcess } from '../src/execution';
+import { Instance as ProcessInstance } from '../src/process';
+import { create, isFailure } from '../src/subprocess';
+
+const phase = (name: string, execute: Phase.Instance['execute']): Phase.Instance => ({ name, execute });
+
+describe('SubProcess', () => {
+    let child: ProcessInstance;
+    let childContexts: Phase.Context[];
+
+    beforeEach(() => {
+        childContexts = [];
+        // lookup -> format
+        child = {
+            name: 'Child',
+            context: { currency: 'USD', locale: 'en' },
+            startPhaseId: 'lookup',
+            phases: {
+                lookup: {
+                    id: 'lookup',
+                    phase: phase('Lookup', async (input, context) => {
+                        childContexts.push(context!);
+                        return { price: (input.quantity as number) * 2 };
+                    }),
+                    next: [{ targetPhaseNodeId: 'format' }],
+                },
+                format: {
+                    id: 'format',
+                    phase: phase('Format', async (input, context) => ({ label: `${input.price} ${context!.processContext.currency}` })),
+                    next: [],
+                    isEndPhase: true,
+                },
+            },
+        };
+    });
+
+    // load -> enrich (the child process) -> save
+    const createParent = (enrich: Phase.Instance): ProcessInstance => ({
+        name: 'Parent',
+        context: { currency: 'EUR' },
+        startPhaseId: 'load',
+        phases: {
+            load: { id: 'load', phase: phase('Load', async () => ({ quantity: 3 })), next: [{ targetPhaseNodeId: 'enrich' }] },
+            enrich: { id: 'enrich', phase: enrich, next: [{ targetPhaseNodeId: 'save' }] },
+            save: { id: 'save', phase: phase('Save', async (input) => ({ saved: input })), next: [], isEndPhase: true },
+        },
+    });
+
+    it('should use the process name as phase name unless one is given', () => {
+        expect(create(child).name).toBe('Child');
+        expect(create(child, { name: 'Pricing' }).name).toBe('Pricing');
+    });
+
+    it('should run the process and return the output of its end phase', async () => {
+        const report = await executeProcess(createParent(create(child)), {}, { runId: 'run-1' });
+
+        expect(report.success).toBe(true);
+        expect(report.results).toEqual({ save: { saved: { label: '6 EUR' } } });
+        expect(childContexts[0].runId).toBe('run-1/enrich');
+    });
+
+    it('should merge the parent context over the context of the process', async () => {
+        await executeProcess(createParent(create(child)), {});
+        expect(childContexts[0].processContext).toEqual({ currency: 'EUR', locale: 'en' });
+    });
+
+    it('should return the results keyed by node id when there are several end phases', async () => {
+        child.phases.lookup.isEndPhase = true;
+        const output = await create(child).execute({ quantity: 1 });
+        expect(output).toEqual({ lookup: { price: 2 }, format: { label: '2 USD' } });
+    });
+
+    it('should map the results with the output option', async () => {
+        const output = jest.fn((results: Record<string, Phase.Output>) => ({ total: results.format.label }));
+        expect(await create(child, { output }).execute({ quantity: 1 })).toEqual({ total: '2 USD' });
+        expect(output).toHaveBeenCalledWith({ format: { label: '2 USD' } }, expect.objectContaining({ processName: 'Child' }));
+    });
+
+    it('should pass the concurrency to the sub-process', async () => {
+        await expect(create(child, { concurrency: 0 }).execute({ quantity: 1 }))
+            .rejects.toThrow('Invalid execution options: concurrency should be a positive integer.');
+    });
+
+    it('should fail with the namespaced errors of the sub-process', async () => {
+        const lookupError = new Error('Price list unavailable');
+        child.phases.lookup.phase = phase('Lookup', async () => { throw lookupError; });
+
+        const report = await executeProcess(createParent(create(child)), {});
+
+        expect(report.success).toBe(false);
+        expect(report.nodeStatuses.enrich).toBe('failed');
+        const { error } = report.errors[0];
+        expect(report.errors[0].nodeId).toBe('enrich');
+        expect(error.message).toBe('Sub-process "Child" failed (enrich/lookup: Price list unavailable).');
+        expect(isFailure(error)).toBe(true);
+        expect(error.errors).toEqual([{ nodeId: 'enrich/lookup', error: lookupError, attempt: 1 }]);
+    });
+
+    it('should flatten the errors of nested sub-processes', async () => {
+        child.phases.format.phase = phase('Format', async () => { throw 'Unknown currency'; });
+        const middle: ProcessInstance = {
+            name: 'Middle',
+            context: {},
+            startPhaseId: 'price',
+            phases: { price: { id: 'price', phase: create(child), next: [], isEndPhase: true } },
+        };
+
+        const report = await executeProcess(createParent(create(middle)), {});
+
+        expect(report.errors[0].error.message).toBe('Sub-process "Middle" failed (enrich/price/format: Unknown currency).');
+        expect(report.errors[0].error.errors).toEqual([{ nodeId: 'enrich/price/format', error: 'Unknown currency', attempt: 1 }]);
+    });
+
+    it('should forward node events with namespaced node ids', async () => {
+        child.phases.lookup.next[0].transform = () => { throw new Error('Bad price'); };
+        const events = Events.createEmitter();
+        const received: string[] = [];
+        events.on('node:start', event => received.push(`start ${event.nodeId}`));
+        events.on('node:error', event => received.push(`error ${event.nodeId}`));
+        events.on('transform:error', event => received.push(`transform ${event.sourceNodeId} -> ${event.targetNodeId}`));
+        events.on('process:start', event => received.push(`process ${event.processName}`));
+
+        await executeProcess(createParent(create(child)), {}, { events });
+
+        expect(received).toEqual([
+            'process Parent',
+            'start load',
+            'start enrich',
+            'start enrich/lookup',
+            'transform enrich/lookup -> enrich/format',
+            'error enrich',
+        ]);
+    });
+
+    it('should namespace the sources of forwarded node starts', async () => {
+        const events = Events.createEmitter();
+        const sources: Record<string, string[]> = {};
+        events.on('node:start', event => sources[event.nodeId] = event.sourceNodeIds);
+
+        await executeProcess(createParent(create(child)), {}, { events });
+
+        expect(sources).toEqual({ load: [], enrich: ['load'], 'enrich/lookup': [], 'enrich/format': ['enrich/lookup'], save: ['enrich'] });
+    });
+
+    it('should forward logs with namespaced node ids', async () => {
+        const logger: jest.Mocked<Logger.Instance> = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+        await executeProcess(createParent(create(child)), {}, { logger });
+
+        expect(logger.debug).toHaveBeenCalledWith('Starting phase lookup', { processName: 'Child', nodeId: 'enrich/lookup' });
+        expect(logger.info).toHaveBeenCalledWith('Executing process Child', { processName: 'Child', nodeId: 'enrich' });
+    });
+
+    it('should stop the sub-process when the parent execution is cancelled', async () => {
+        const controller = new AbortController();
+        child.phases.lookup.phase = phase('Lookup', async () => {
+            controller.abort(new Error('Shutting down'));
+            return { price: 1 };
+        });
+        const formatExecute = jest.fn(async () => ({}));
+        child.phases.format.phase = phase('Format', formatExecute);
+
+        const report = await executeProcess(createParent(create(child)), {}, { signal: controller.signal });
+
+        expect(report.cancelled).toBe(true);
+        expect(report.nodeStatuses.enrich).toBe('cancelled');
+        expect(formatExecute).not.toHaveBeenCalled();
+    });
+
+    it('should run without a run context', async () => {
+        expect(await create(child).execute({ quantity: 2 })).toEqual({ label: '4 USD' });
+    });
+
+    it('should recognise failures', () => {
+        expect(isFailure(Object.assign(new Error('failed'), { errors: [] }))).toBe(true);
+        expect(isFailure(new Error('failed'))).toBe(false);
+        expect(isFailure({ errors: [] })).toBe(false);
+    });
+});
@@ -0,0 +1,213 @@
+import { jest } from '@jest/globals';
+import * as Phase from '../src/phase';
+import * as Events from '../src/events';
+import { Instance as ProcessInstance } from '../src/process';
+import * as SubProcess from '../src/subprocess';
+import {
+    assertEdgesTaken,
+    assertVisitOrder,
+    createDelayedPhase,
+    createFailingPhase,
+    createMockPhase,
+    createRecorder,
+    createSpyPhase,
+    edgesTaken,
+    recordProcess,
+    replayProcess,
+} from '../src/testing';
+
+describe('Testing', () => {
+    describe('mock phases', () => {
+        it('should return fixed or computed outputs and record their calls', async () => {
+            const fixed = createMockPhase('Fixed', { total: 3 });
+            const computed = createMockPhase('Computed', async (input: Phase.Input) => ({ doubled: (input.value as number) * 2 }));
+
+            expect(await fixed.execute({ a: 1 })).toEqual({ total: 3 });
+            expect(await computed.execute({ value: 4 })).toEqual({ doubled: 8 });
+            expect(fixed.name).toBe('Fixed');
+            expect(fixed.calls).toEqual([{ input: { a: 1 }, context: undefined }]);
+            expect(computed.calls).toHaveLength(1);
+        });
+
+        it('should throw errors and messages', async () => {
+            const error = new Error('Broken');
+            await expect(createFailingPhase('Fails', error).execute({})).rejects.toBe(error);
+            await expect(createFailingPhase('Fails', 'Out of stock').execute({})).rejects.toThrow('Out of stock');
+        });
+
+        it('should return after the delay unless the run is cancelled', async () => {
+            const delayed = createDelayedPhase('Slow', 10, { done: true });
+            expect(await delayed.execute({})).toEqual({ done: true });
+
+            const controller = new AbortController();
+            const context = { signal: controller.signal } as Phase.Context;
+            const pending = createDelayedPhase('Slow', 1000, {}).execute({}, context);
+            controller.abort(new Error('Cancelled'));
+            await expect(pending).rejects.toThrow('Cancelled');
+        });
+
+        it('should pass the calls of a spy on to the real phase', async () => {
+            const execute = jest.fn(async (input: Phase.Input) => ({ seen: input }));
+            const spy = createSpyPhase({ name: 'Real', execute });
+
+            expect(await spy.execute({ id: 1 })).toEqual({ seen: { id: 1 } });
+            expect(execute).toHaveBeenCalledWith({ id: 1 }, undefined);
+            expect(spy.calls).toEqual([{ input: { id: 1 }, context: undefined }]);
+        });
+
+        it('should call the real phase as a method', async () => {
+            const real = {
+                name: 'Real',
+                factor: 3,
+                async execute(input: Phase.Input) {
+                    return { value: (input.value as number) * this.factor };
+                },
+            };
+
+            expect(await createSpyPhase(real).execute({ value: 2 })).toEqual({ value: 6 });
+        });
+
+        it('should keep the stream of a stream phase', async () => {
+            const real = Phase.createStream('Lines', async function* (input: Phase.Input) {
+                yield* input.lines as string[];
+            });
+            const spy = createSpyPhase(real);
+            const items: unknown[] = [];
+
+            expect(Phase.isStreamPhase(spy)).toBe(true);
+            for await (const item of Phase.isStreamPhase(spy) ? spy.stream({ lines: ['a', 'b'] }) : []) {
+                items.push(item);
+            }
+
+            expect(items).toEqual(['a', 'b']);
+            expect(spy.calls).toEqual([{ input: { lines: ['a', 'b'] }, context: undefined }]);
+            expect(Phase.isStreamPhase(createSpyPhase({ name: 'Plain', execute: async () => ({}) }))).toBe(false);
+        });
+    });
+
+    describe('recording and replay', () => {
+        let orderProcess: ProcessInstance;
+        let check: ReturnType<typeof createMockPhase>;
+
+        beforeEach(() => {
+            check = createMockPhase('Check', (input: Phase.Input) => ({ total: (input.lines as number) * 100 }));
+            // load -> check -> approve (total < 500) | review (total >= 500), load -> audit, check + audit -> report (join)
+            orderProcess = {
+                name: 'Orders',
+                context: {},
+                startPhaseId: 'load',
+                phases: {
+                    load: { id: 'load', phase: createMockPhase('Load', { lines: 7 }), next: [{ targetPhaseNodeId: 'check' }, { targetPhaseNodeId: 'audit' }] },
+                    check: {
+                        id: 'check',
+                        phase: check,
+                        next: [
+                            { targetPhaseNodeId: 'approve', condition: (output) => output.total < 500 },
+                            { targetPhaseNodeId: 'review', condition: (output) => output.total >= 500 },
+                            { targetPhaseNodeId: 'report' },
+                        ],
+                    },
+                    audit: { id: 'audit', phase: createMockPhase('Audit', { audited: true }), next: [{ targetPhaseNodeId: 'report' }] },
+                    approve: { id: 'approve', phase: createMockPhase('Approve', {}), next: [], isEndPhase: true },
+                    review: { id: 'review', phase: createFailingPhase('Review', 'No reviewer'), next: [], isEndPhase: true },
+                    report: { id: 'report', phase: createMockPhase('Report', { sent: true }), next: [], isEndPhase: true, join: { mode: 'all' } },
+                },
+            };
+        });
+
+        it('should record the input, output and sources of every node', async () => {
+            const { report, recording } = await recordProcess(orderProcess, { orderId: 'o-1' }, { concurrency: 1 });
+
+            expect(report.success).toBe(false);
+            expect(recording).toEqual({
+                processName: 'Orders',
+                input: { orderId: 'o-1' },
+                steps: [
+                    { nodeId: 'load', sourceNodeIds: [], input: { orderId: 'o-1' }, output: { lines: 7 } },
+                    { nodeId: 'check', sourceNodeIds: ['load'], input: { lines: 7 }, output: { total: 700 } },
+                    { nodeId: 'audit', sourceNodeIds: ['load'], input: { lines: 7 }, output: { audited: true } },
+                    { nodeId: 'review', sourceNodeIds: ['check'], input: { total: 700 }, error: 'No reviewer' },
+                    { nodeId: 'report', sourceNodeIds: ['check', 'audit'], input: { check: { total: 700 }, audit: { audited: true } }, output: { sent: true } },
+                ],
+            });
+            expect(JSON.parse(JSON.stringify(recording))).toEqual(recording);
+        });
+
+        it('should replay a recording without executing the phases', async () => {
+            const { recording } = await recordProcess(orderProcess, { orderId: 'o-1' }, { concurrency: 1 });
+            orderProcess.phases.check.retry = { maxAttempts: 3 };
+
+            const replay = await replayProcess(orderProcess, JSON.parse(JSON.stringify(recording)), { concurrency: 1 });
+
+            expect(check.calls).toHaveLength(1);
+            expect(replay.recording).toEqual(recording);
+            expect(replay.report.nodeStatuses).toEqual(expect.objectContaining({ review: 'failed', report: 'succeeded', approve: 'skipped' }));
+            expect(replay.report.errors.map(({ nodeId, error }) => [nodeId, error.message])).toEqual([['review', 'No reviewer']]);
+        });
+
+        it('should fail nodes that run more often than recorded', async () => {
+            const { recording } = await recordProcess(orderProcess, {}, { concurrency: 1 });
+            recording.steps[1].output = { total: 100 };
+
+            const replay = await replayProcess(orderProcess, recording);
+
+            expect(replay.report.errors.map(({ nodeId, error }) => [nodeId, error.message])).toEqual([
+                ['approve', 'No recorded execution left for node "approve".'],
+            ]);
+        });
+
+        it('should keep recording on a given emitter and stop listening afterwards', async () => {
+            const events = Events.createEmitter();
+            const started: string[] = [];
+            events.on('node:start', (event) => started.push(event.nodeId));
+
+            await recordProcess(orderProcess, {}, { events, concurrency: 1 });
+            const recorder = createRecorder(events);
+            recorder.stop();
+            await recordProcess(orderProcess, {}, { events });
+
+            expect(started).toHaveLength(10);
+            expect(recorder.recording()).toEqual({ processName: '', input: {}, steps: [] });
+        });
+
+        it('should not record the nodes of sub-processes', async () => {
+            const child: ProcessInstance = {
+                name: 'Child',
+                context: {},
+                startPhaseId: 'inner',
+                phases: { inner: { id: 'inner', phase: createMockPhase('Inner', {}), next: [], isEndPhase: true } },
+            };
+            orderProcess.phases.audit.phase = SubProcess.create(child);
+
+            const { recording } = await recordProcess(orderProcess, {}, { concurrency: 1 });
+
+            expect(recording.steps.map(step => step.nodeId)).not.toContain('audit/inner');
+        });
+    });
+
+    describe('assertions', () => {
+        const recording = {
+            processName: 'Orders',
+            input: {},
+            steps: [
+                { nodeId: 'load', sourceNodeIds: [], input: {}, output: {} },
+                { nodeId: 'check', sourceNodeIds: ['load'], input: {}, output: {} },
+                { nodeId: 'report', sourceNodeIds: ['load', 'check'], input: {}, output: {} },
+            ],
+        };
+
+        it('should list the edges taken', () => {
+            expect(edgesTaken(recording)).toEqual([['load', 'check'], ['load', 'report'], ['check', 'report']]);
+        });
+
+        it('should check the visit order', () => {
+            expect(() => assertVisitOrder(recording, ['load', 'check', 'report'])).not.toThrow();
+            expect(() => assertVisitOrder(recording, ['load', 'report'])).toThrow('Expected the nodes "load", "report" to run in this order, but "load", "check", "report" ran.');
+        });
+
+        it('should check the edges taken in any order', () => {
+            expect(() => assertEdgesTaken(recording, [['check', 'report'], ['load', 'check'], ['load', 'report']])).not.toThrow();
+            expect(() => assertEdgesTaken({ ...recording, steps: [] }, [['load', 'check']])).toThrow('Expected the connections "load -> check" to be taken, but none were.');
+        });
+    });
+});
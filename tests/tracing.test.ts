@@ -0,0 +1,67 @@
+import { createMemoryExporter, createSpanId, createTraceId, Span, toOtlp, toUnixNano } from '../src/tracing';
+
+describe('Tracing', () => {
+    it('should create random ids in the OpenTelemetry format', () => {
+        expect(createTraceId()).toMatch(/^[0-9a-f]{32}$/);
+        expect(createSpanId()).toMatch(/^[0-9a-f]{16}$/);
+        expect(createSpanId()).not.toBe(createSpanId());
+    });
+
+    it('should convert dates to nanoseconds since the epoch', () => {
+        expect(toUnixNano(new Date(1700000000123))).toBe('1700000000123000000');
+    });
+
+    it('should keep exported spans in order', () => {
+        const exporter = createMemoryExporter();
+        const span = {
+            traceId: createTraceId(),
+            spanId: createSpanId(),
+            name: 'load',
+            kind: 'SPAN_KIND_INTERNAL' as const,
+            startTimeUnixNano: '1',
+            endTimeUnixNano: '2',
+            attributes: {},
+            status: { code: 'OK' as const },
+            links: [],
+        };
+        exporter.export(span);
+        exporter.export({ ...span, name: 'save' });
+
+        expect(exporter.spans.map(({ name }) => name)).toEqual(['load', 'save']);
+    });
+
+    it('should convert spans to OTLP JSON', () => {
+        const span: Span = {
+            traceId: '0af7651916cd43dd8448eb211c80319c',
+            spanId: 'b7ad6b7169203331',
+            parentSpanId: '00f067aa0ba902b7',
+            name: 'load',
+            kind: 'SPAN_KIND_INTERNAL',
+            startTimeUnixNano: '1',
+            endTimeUnixNano: '2',
+            attributes: { 'zealux.node.id': 'load', 'zealux.node.attempts': 2, 'zealux.node.queue_ms': 0.5, 'zealux.node.cached': false },
+            status: { code: 'ERROR', message: 'Failed' },
+            links: [{ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: '53995c3f42cd8ad8' }],
+        };
+
+        expect(toOtlp(span)).toEqual({
+            traceId: '0af7651916cd43dd8448eb211c80319c',
+            spanId: 'b7ad6b7169203331',
+            parentSpanId: '00f067aa0ba902b7',
+            name: 'load',
+            kind: 'SPAN_KIND_INTERNAL',
+            startTimeUnixNano: '1',
+            endTimeUnixNano: '2',
+            attributes: [
+                { key: 'zealux.node.id', value: { stringValue: 'load' } },
+                { key: 'zealux.node.attempts', value: { intValue: '2' } },
+                { key: 'zealux.node.queue_ms', value: { doubleValue: 0.5 } },
+                { key: 'zealux.node.cached', value: { boolValue: false } },
+            ],
+            status: { code: 'STATUS_CODE_ERROR', message: 'Failed' },
+            links: [{ traceId: '0af7651916cd43dd8448eb211c80319c', spanId: '53995c3f42cd8ad8' }],
+        });
+        expect(toOtlp({ ...span, status: { code: 'OK' } }).status).toEqual({ code: 'STATUS_CODE_OK' });
+        expect(toOtlp({ ...span, status: { code: 'UNSET' } }).status).toEqual({ code: 'STATUS_CODE_UNSET' });
+    });
+});
@@ -65,7 +65,7 @@ export default defineConfig({
             formats: ['es'],
         },
         rollupOptions: {
-            input: 'src/zealux.ts',
+            input: ['src/zealux.ts', 'src/main.ts'],
             output: {
                 format: 'esm',
                 entryFileNames: '[name].js',